@@ -0,0 +1,13 @@
+// Regenerate src/data/districtAdjacency.json from src/data/districtTopology.json: which districts
+// share a border (within SNAPPED_BORDER_TOLERANCE, at least MIN_SHARED_BORDER long), how long it
+// is and whether it is part of the mita boundary. Run `npm run build:adjacency` after rebuilding
+// the topology.
+import fs from 'fs';
+import path from 'path';
+import { buildBundledAdjacency } from '../src/components/viz/adjacencyUtils';
+
+const file = path.join(__dirname, '..', 'src', 'data', 'districtAdjacency.json');
+const entries = buildBundledAdjacency();
+
+fs.writeFileSync(file, JSON.stringify(entries));
+console.log(`Wrote neighbors of ${entries.length} districts to src/data/districtAdjacency.json`);
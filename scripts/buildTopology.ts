@@ -0,0 +1,18 @@
+// Regenerate src/data/districtTopology.json from src/data/districtPolygons.json, the district
+// outlines as digitized ([lat, lon] rings with each district's mita flag). The outlines are
+// snapped together (TOPOLOGY_SNAP_TOLERANCE), cut into shared arcs and quantized
+// (TOPOLOGY_QUANTIZATION) by buildTopology. Run `npm run build:topology` after changing either.
+import fs from 'fs';
+import path from 'path';
+import { buildTopology } from '../src/components/viz/topologyUtils';
+import { validateDistrictPolygons } from '../src/components/viz/validationUtils';
+
+const DATA = path.join(__dirname, '..', 'src', 'data');
+
+const raw: unknown = JSON.parse(fs.readFileSync(path.join(DATA, 'districtPolygons.json'), 'utf8'));
+const { data, issues } = validateDistrictPolygons(raw);
+issues.forEach(i => console.warn(`${i.severity}: ${i.message}${i.ubigeo !== undefined ? ` (${i.ubigeo})` : ''}`));
+if (issues.some(i => i.severity === 'error')) process.exit(1);
+
+fs.writeFileSync(path.join(DATA, 'districtTopology.json'), JSON.stringify(buildTopology(data)));
+console.log(`Wrote ${data.length} districts to src/data/districtTopology.json`);
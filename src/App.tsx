@@ -1,9 +1,15 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import './App.css';
 import ScrollyStory from './components/ScrollyStory';
+import DataQualityPanel from './components/DataQualityPanel';
+import DataUploader from './components/DataUploader';
+import DataSourceContext from './components/DataSourceContext';
+import { DistrictDataSource } from './components/viz';
 import { colors, colorsRGB } from './colors';
 
 function App() {
+  const [source, setSource] = useState<DistrictDataSource | null>(null);
+
   // Inject color CSS variables from the single source of truth
   useEffect(() => {
     const root = document.documentElement;
@@ -42,7 +48,11 @@ function App() {
 
   return (
     <div className="App">
-      <ScrollyStory />
+      <DataSourceContext.Provider value={source}>
+        <ScrollyStory />
+      </DataSourceContext.Provider>
+      <DataUploader source={source} onLoad={setSource} />
+      {process.env.NODE_ENV === 'development' && <DataQualityPanel />}
     </div>
   );
 }
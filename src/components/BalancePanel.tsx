@@ -0,0 +1,133 @@
+import React, { useContext, useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import {
+  BalanceVariable,
+  ScatterDataPoint,
+  FittedLines,
+  BALANCE_VARIABLES,
+  BALANCE_LABELS,
+  mergeData,
+  filterScatterData,
+  createXScale,
+  createDataYScale,
+  calculateFittedLines,
+  formatValue,
+  renderBalancePanel,
+} from './viz';
+import DataSourceContext from './DataSourceContext';
+
+interface BalancePanelProps {
+  variables?: BalanceVariable[];
+  polynomialOrder?: number;
+}
+
+interface BalanceRow {
+  variable: BalanceVariable;
+  scatterData: ScatterDataPoint[];
+  fittedLines: FittedLines;
+}
+
+const PANEL_SIZE = { width: 240, height: 180 };
+const PANEL_MARGIN = { top: 10, right: 10, bottom: 36, left: 44 };
+
+// One small multiple: the same RD chart as the outcomes, fed a pre-treatment variable
+const BalanceMultiple: React.FC<{ row: BalanceRow }> = ({ row }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const innerWidth = PANEL_SIZE.width - PANEL_MARGIN.left - PANEL_MARGIN.right;
+  const innerHeight = PANEL_SIZE.height - PANEL_MARGIN.top - PANEL_MARGIN.bottom;
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    const g = svg.append('g')
+      .attr('transform', `translate(${PANEL_MARGIN.left},${PANEL_MARGIN.top})`);
+
+    renderBalancePanel({
+      g,
+      scatterData: row.scatterData,
+      fittedLines: row.fittedLines,
+      xScale: createXScale(innerWidth),
+      yScale: createDataYScale(row.scatterData.map(d => d.scatterY), innerHeight),
+      innerWidth,
+      innerHeight,
+    });
+  }, [row, innerWidth, innerHeight]);
+
+  return (
+    <figure className="balance-multiple">
+      <figcaption>{BALANCE_LABELS[row.variable]}</figcaption>
+      <svg ref={svgRef} width="100%" viewBox={`0 0 ${PANEL_SIZE.width} ${PANEL_SIZE.height}`} />
+    </figure>
+  );
+};
+
+const BalancePanel: React.FC<BalancePanelProps> = ({
+  variables = BALANCE_VARIABLES,
+  polynomialOrder = 1,
+}) => {
+  const source = useContext(DataSourceContext);
+  const mergedData = useMemo(() => (source ? mergeData('data', source) : mergeData()), [source]);
+  const rows: BalanceRow[] = useMemo(() => variables.map(variable => {
+    const scatterData = filterScatterData(mergedData, variable);
+    return { variable, scatterData, fittedLines: calculateFittedLines(scatterData, { order: polynomialOrder }) };
+  }), [mergedData, variables, polynomialOrder]);
+
+  const available = rows.filter(r => r.fittedLines.rdEstimate !== null);
+
+  return (
+    <div className="balance-panel">
+      <h3 className="chart-title">Balance at the boundary: pre-treatment characteristics</h3>
+      {available.length > 0 && (
+        <div className="balance-multiples">
+          {available.map(row => <BalanceMultiple key={row.variable} row={row} />)}
+        </div>
+      )}
+      <table className="balance-table">
+        <thead>
+          <tr>
+            <th>Characteristic</th>
+            <th>Jump at boundary</th>
+            <th>95% CI</th>
+            <th>N</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ variable, scatterData, fittedLines: { rdEstimate } }) => {
+            if (!rdEstimate) {
+              return (
+                <tr key={variable}>
+                  <td>{BALANCE_LABELS[variable]}</td>
+                  <td colSpan={4} className="unavailable">
+                    {scatterData.length > 0 ? 'Not estimable' : `Not in the ${source ? 'loaded' : 'bundled'} data`}
+                  </td>
+                </tr>
+              );
+            }
+            const [low, high] = rdEstimate.confidenceInterval;
+            const balanced = low <= 0 && high >= 0;
+            return (
+              <tr key={variable}>
+                <td>{BALANCE_LABELS[variable]}</td>
+                <td>{formatValue(rdEstimate.estimate)}</td>
+                <td>[{formatValue(low)}, {formatValue(high)}]</td>
+                <td>{rdEstimate.nInside + rdEstimate.nOutside}</td>
+                <td className={balanced ? 'balanced' : 'imbalanced'}>
+                  {balanced ? 'No jump' : 'Jump'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="analysis-caption">
+        The same RD specification as the outcomes, run on characteristics fixed before the mita.
+        A valid boundary design should find no jump in any of them.
+      </p>
+    </div>
+  );
+};
+
+export default BalancePanel;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { ColumnMapping, OUTCOMES, OUTCOME_IDS, WEIGHT_FIELDS, COVARIATE_LABELS, BALANCE_VARIABLES, BALANCE_LABELS, DataIssue } from './viz';
+
+interface ColumnMappingDialogProps {
+  csvName: string;
+  geoName: string;
+  columns: string[];
+  properties: string[];
+  mapping: ColumnMapping;
+  issues: DataIssue[] | null; // From the last attempt to apply the mapping
+  onChange: (mapping: ColumnMapping) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const NONE = '';
+
+const ColumnSelect: React.FC<{
+  label: string;
+  value: string;
+  options: string[];
+  optional?: boolean;
+  onChange: (value: string) => void;
+}> = ({ label, value, options, optional = false, onChange }) => (
+  <label className="mapping-field">
+    <span>{label}</span>
+    <select value={value} onChange={e => onChange(e.target.value)}>
+      {optional && <option value={NONE}>— none —</option>}
+      {!optional && value === NONE && <option value={NONE} disabled>Choose a column</option>}
+      {options.map(o => <option key={o} value={o}>{o}</option>)}
+    </select>
+  </label>
+);
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  csvName,
+  geoName,
+  columns,
+  properties,
+  mapping,
+  issues,
+  onChange,
+  onApply,
+  onCancel,
+}) => {
+  const errors = issues?.filter(i => i.severity === 'error') ?? [];
+  const complete = mapping.id !== NONE && mapping.runningVariable !== NONE &&
+    mapping.treatment !== NONE && mapping.polygonId !== NONE;
+
+  return (
+    <div className="mapping-backdrop">
+      <div className="mapping-dialog" role="dialog" aria-modal="true" aria-labelledby="mapping-title">
+        <h3 id="mapping-title" className="chart-title">Map your columns</h3>
+        <p className="analysis-caption">
+          Rows from <code>{csvName}</code> are joined to outlines from <code>{geoName}</code> by id.
+          Ids must be numeric. The running variable is the distance to the boundary; its side comes
+          from the treatment flag (1/true/yes inside).
+        </p>
+        <ColumnSelect label="District id" value={mapping.id} options={columns}
+          onChange={id => onChange({ ...mapping, id })} />
+        <ColumnSelect label="Running variable" value={mapping.runningVariable} options={columns}
+          onChange={runningVariable => onChange({ ...mapping, runningVariable })} />
+        <ColumnSelect label="Treatment flag" value={mapping.treatment} options={columns}
+          onChange={treatment => onChange({ ...mapping, treatment })} />
+        {OUTCOME_IDS.map(outcome => (
+          <ColumnSelect
+            key={outcome}
+            label={`Outcome: ${OUTCOMES[outcome].name}`}
+            value={mapping.outcomes[outcome] ?? NONE}
+            options={columns}
+            optional
+            onChange={column => onChange({
+              ...mapping,
+              outcomes: { ...mapping.outcomes, [outcome]: column === NONE ? undefined : column },
+            })}
+          />
+        ))}
+        {WEIGHT_FIELDS.map(field => (
+          <ColumnSelect
+            key={field}
+            label={`Sample size: ${field}`}
+            value={mapping.weights?.[field] ?? NONE}
+            options={columns}
+            optional
+            onChange={column => onChange({
+              ...mapping,
+              weights: { ...mapping.weights, [field]: column === NONE ? undefined : column },
+            })}
+          />
+        ))}
+        {BALANCE_VARIABLES.map(field => (
+          <ColumnSelect
+            key={field}
+            label={`${field in COVARIATE_LABELS ? 'Control' : 'Pre-treatment'}: ${BALANCE_LABELS[field]}`}
+            value={mapping.pretreatment?.[field] ?? NONE}
+            options={columns}
+            optional
+            onChange={column => onChange({
+              ...mapping,
+              pretreatment: { ...mapping.pretreatment, [field]: column === NONE ? undefined : column },
+            })}
+          />
+        ))}
+        <ColumnSelect label="Polygon id property" value={mapping.polygonId} options={properties}
+          onChange={polygonId => onChange({ ...mapping, polygonId })} />
+        <p className="analysis-caption">
+          Each outcome column fills one of the story&apos;s outcome slots and keeps its label and scaling
+          (stunting and market selling are read as shares and shown in percent). Sample sizes weight the
+          fits: households surveyed for consumption, children measured for stunting. Elevation and slope are
+          the geographic controls of the controlled estimate; they and the 1572 tributary population
+          feed the balance check. The bundled data has none of these, so weighting, controls and the
+          balance check only apply to uploaded data.
+        </p>
+        {issues && (
+          <p className={errors.length > 0 ? 'mapping-issues data-quality-error' : 'mapping-issues'}>
+            {errors.length} error{errors.length === 1 ? '' : 's'} and {issues.length - errors.length} warnings
+            {errors.length > 0 && `, e.g. ${errors[0].message}${errors[0].ubigeo !== undefined ? ` (${errors[0].ubigeo})` : ''}`}.
+          </p>
+        )}
+        <div className="export-controls">
+          <button type="button" onClick={onCancel}>Cancel</button>
+          <button type="button" onClick={onApply} disabled={!complete}>Use this data</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { DataIssueKind, buildDataQualityReport } from './viz';
+
+const KIND_LABELS: Record<DataIssueKind, string> = {
+  schema: 'Malformed records (dropped)',
+  duplicate: 'Duplicate ubigeos (dropped)',
+  coordinates: 'Invalid coordinates',
+  orphanOutcome: 'Outcome rows without a polygon',
+  missingOutcome: 'Polygons without an outcome row',
+  treatmentMismatch: 'Polygon mita flag disagrees with isInside',
+  zeroOutcome: 'Outcomes coded 0 (treated as missing)',
+  staleAdjacency: 'Neighbor lists out of step with the polygons',
+};
+
+const MAX_LISTED = 12; // Issues listed per group before summarizing the rest
+
+// Development-only overlay: what the validators dropped or flagged in the bundled data
+const DataQualityPanel: React.FC = () => {
+  const report = useMemo(() => buildDataQualityReport(), []);
+  const groups = useMemo(() => d3.groups(report.issues, i => i.kind), [report]);
+  const errors = report.issues.filter(i => i.severity === 'error').length;
+
+  return (
+    <details className="data-quality-panel">
+      <summary>
+        Data quality: {errors} error{errors === 1 ? '' : 's'}, {report.issues.length - errors} warnings
+      </summary>
+      <p className="data-quality-records">
+        {Object.entries(report.records).map(([file, count]) => `${file}: ${count}`).join(' · ')}
+      </p>
+      {groups.map(([kind, issues]) => (
+        <div key={kind} className="data-quality-group">
+          <h4 className={issues.some(i => i.severity === 'error') ? 'data-quality-error' : undefined}>
+            {KIND_LABELS[kind]} ({issues.length})
+          </h4>
+          <ul>
+            {issues.slice(0, MAX_LISTED).map((issue, i) => (
+              <li key={i}>
+                {issue.ubigeo !== undefined && <code>{String(issue.ubigeo).padStart(6, '0')}</code>}{' '}
+                {issue.message} <span className="data-quality-file">({issue.file})</span>
+              </li>
+            ))}
+            {issues.length > MAX_LISTED && <li>…and {issues.length - MAX_LISTED} more</li>}
+          </ul>
+        </div>
+      ))}
+    </details>
+  );
+};
+
+export default DataQualityPanel;
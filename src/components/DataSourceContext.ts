@@ -0,0 +1,7 @@
+import { createContext } from 'react';
+import { DistrictDataSource } from './viz';
+
+// Uploaded district data for the story's charts; null means the bundled Dell (2010) data
+const DataSourceContext = createContext<DistrictDataSource | null>(null);
+
+export default DataSourceContext;
@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ColumnMapping,
+  DataIssue,
+  DistrictDataSource,
+  UploadedPolygons,
+  UploadedTable,
+  parseCSV,
+  parseGeoJSON,
+  guessMapping,
+  buildDataSource,
+  usableDistricts,
+} from './viz';
+import ColumnMappingDialog from './ColumnMappingDialog';
+
+interface DataUploaderProps {
+  source: DistrictDataSource | null;
+  onLoad: (source: DistrictDataSource | null) => void;
+}
+
+const ACCEPT = '.csv,.geojson,.topojson,.json';
+
+// Drop (or pick) a CSV of district outcomes and a GeoJSON or TopoJSON of their outlines. Once both are in,
+// the mapping dialog joins them and the map, the scatter and the placebo, balance, sensitivity, density
+// and resampling charts switch to the uploaded data. The estimates table, geographic RD, subgroups and
+// replication need Dell's coordinates and district codes, so they stay on the bundled data.
+const DataUploader: React.FC<DataUploaderProps> = ({ source, onLoad }) => {
+  const [table, setTable] = useState<UploadedTable | null>(null);
+  const [polygons, setPolygons] = useState<UploadedPolygons | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [issues, setIssues] = useState<DataIssue[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const dragDepth = useRef(0);
+
+  const readFiles = useCallback(async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const text = await file.text();
+        if (/\.csv$/i.test(file.name)) {
+          const parsed = parseCSV(file.name, text);
+          setTable(parsed.rows.length > 0 ? parsed : null);
+          setMessage(parsed.rows.length > 0 ? null : `${file.name} has no rows`);
+        } else {
+          const parsed = parseGeoJSON(file.name, text);
+          setPolygons(parsed && parsed.features.length > 0 ? parsed : null);
+          setMessage(parsed && parsed.features.length > 0 ? null : `${file.name} is not a FeatureCollection or TopoJSON of polygons`);
+        }
+      } catch (e) {
+        // Unreadable files and malformed topologies end up here; the other files still load
+        setMessage(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }, []);
+
+  // Start mapping once both files are in
+  useEffect(() => {
+    if (table && polygons) {
+      setMapping(guessMapping(table.columns, polygons.properties));
+      setIssues(null);
+    }
+  }, [table, polygons]);
+
+  // Window-level drag and drop
+  useEffect(() => {
+    const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes('Files') ?? false;
+    const onDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepth.current++;
+      setDragging(true);
+    };
+    const onDragLeave = () => {
+      dragDepth.current = Math.max(0, dragDepth.current - 1);
+      if (dragDepth.current === 0) setDragging(false);
+    };
+    const onDragOver = (event: DragEvent) => {
+      if (hasFiles(event)) event.preventDefault();
+    };
+    const onDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepth.current = 0;
+      setDragging(false);
+      readFiles(Array.from(event.dataTransfer?.files ?? []));
+    };
+    window.addEventListener('dragenter', onDragEnter);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragenter', onDragEnter);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, [readFiles]);
+
+  const reset = () => {
+    setTable(null);
+    setPolygons(null);
+    setMapping(null);
+    setIssues(null);
+  };
+
+  const apply = () => {
+    if (!table || !polygons || !mapping) return;
+    const built = buildDataSource(table, polygons, mapping);
+    const { inside, outside } = usableDistricts(built.data);
+    if (inside === 0 || outside === 0) {
+      setIssues(built.issues);
+      setMessage(`Need districts on both sides of the boundary; found ${inside} inside and ${outside} outside`);
+      return;
+    }
+    onLoad(built.data);
+    setMessage(`${inside + outside} districts loaded (${inside} inside, ${outside} outside), ${built.issues.length} issues`);
+    reset();
+  };
+
+  const waitingFor = table ? 'a GeoJSON of outlines' : polygons ? 'a CSV of outcomes' : null;
+
+  return (
+    <>
+      <div className="data-uploader">
+        {source
+          ? <span>Showing <code>{source.name}</code> (the table, map RD, subgroups and replication keep Dell&apos;s data)</span>
+          : <span>Drop a CSV and a GeoJSON to use your own districts</span>}
+        <label className="data-uploader-pick">
+          Choose files
+          <input
+            type="file"
+            accept={ACCEPT}
+            multiple
+            onChange={e => {
+              readFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {source && <button type="button" onClick={() => onLoad(null)}>Back to Dell (2010)</button>}
+        {waitingFor && <span className="data-uploader-status">Waiting for {waitingFor}</span>}
+        {message && <span className="data-uploader-status">{message}</span>}
+      </div>
+      {dragging && <div className="data-drop-overlay">Drop a CSV and a GeoJSON</div>}
+      {table && polygons && mapping && (
+        <ColumnMappingDialog
+          csvName={table.name}
+          geoName={polygons.name}
+          columns={table.columns}
+          properties={polygons.properties}
+          mapping={mapping}
+          issues={issues}
+          onChange={setMapping}
+          onApply={apply}
+          onCancel={reset}
+        />
+      )}
+    </>
+  );
+};
+
+export default DataUploader;
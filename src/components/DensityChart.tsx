@@ -0,0 +1,63 @@
+import React, { useContext, useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import {
+  DEFAULT_DIMENSIONS,
+  DEFAULT_MARGIN,
+  mergeData,
+  getSignedDistances,
+  createXScale,
+  getInnerDimensions,
+  densityTest,
+  renderDensityChart,
+} from './viz';
+import DataSourceContext from './DataSourceContext';
+
+const DensityChart: React.FC = () => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dimensions = DEFAULT_DIMENSIONS;
+  const { innerWidth, innerHeight } = getInnerDimensions(dimensions, DEFAULT_MARGIN);
+
+  const source = useContext(DataSourceContext);
+  const mergedData = useMemo(() => (source ? mergeData('data', source) : mergeData()), [source]);
+  const test = useMemo(() => densityTest(getSignedDistances(mergedData)), [mergedData]);
+
+  useEffect(() => {
+    if (!svgRef.current || !test) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    const g = svg.append('g')
+      .attr('transform', `translate(${DEFAULT_MARGIN.left},${DEFAULT_MARGIN.top})`);
+
+    renderDensityChart({
+      g,
+      test,
+      xScale: createXScale(innerWidth),
+      innerWidth,
+      innerHeight,
+    });
+  }, [test, innerWidth, innerHeight]);
+
+  return (
+    <div className="density-chart">
+      <h3 className="chart-title">Districts by distance from the boundary</h3>
+      <svg
+        ref={svgRef}
+        width="100%"
+        viewBox={`0 0 ${dimensions.width} ${dimensions.height}`}
+        style={{ maxWidth: '100%', height: 'auto' }}
+      />
+      {test && (
+        <p className="analysis-caption">
+          Density test (McCrary 2008) on {test.n} districts, bins of {test.binWidth.toFixed(1)} km,
+          bandwidth {test.bandwidth.toFixed(1)} km: z = {test.z.toFixed(2)}.
+          {Math.abs(test.z) < 1.96
+            ? ' No significant bunching on either side of the boundary.'
+            : ' The density jumps at the boundary, a warning sign for the design.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DensityChart;
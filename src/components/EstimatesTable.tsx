@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import {
+  OutcomeType,
+  TableSpecification,
+  TABLE_SPECIFICATIONS,
+  CONLEY_CUTOFF,
+  OUTCOMES,
+  OUTCOME_IDS,
+  mergeData,
+  filterScatterData,
+  districtAdjacency,
+  neighborLists,
+  toRDPoints,
+  estimateRD,
+  residualMoransI,
+  buildEstimatesTable,
+  tableCells,
+  toLatex,
+  toCSV,
+  toMarkdown,
+} from './viz';
+
+interface EstimatesTableProps {
+  outcomes?: OutcomeType[];
+  specifications?: TableSpecification[];
+}
+
+type TableVariance = 'cluster' | 'conley';
+
+const VARIANCE_LABELS: Record<TableVariance, string> = {
+  cluster: 'Clustered by province',
+  conley: 'Conley spatial HAC',
+};
+
+const EXPORTS = [
+  { label: 'LaTeX', filename: 'mita-estimates.tex', type: 'application/x-tex', format: toLatex },
+  { label: 'CSV', filename: 'mita-estimates.csv', type: 'text/csv', format: toCSV },
+  { label: 'Markdown', filename: 'mita-estimates.md', type: 'text/markdown', format: toMarkdown },
+];
+
+// Save a generated file from the browser
+const download = (filename: string, type: string, text: string): void => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns; revoking synchronously cancels it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const EstimatesTable: React.FC<EstimatesTableProps> = ({
+  outcomes = OUTCOME_IDS,
+  specifications = TABLE_SPECIFICATIONS,
+}) => {
+  const [variance, setVariance] = useState<TableVariance>('cluster');
+  const [cutoff, setCutoff] = useState(CONLEY_CUTOFF);
+  const mergedData = useMemo(() => mergeData(), []);
+  const adjacency = useMemo(() => neighborLists(districtAdjacency()), []);
+  // Rows only for outcomes the data has values for
+  const pointsByOutcome = useMemo(
+    () => Object.fromEntries(outcomes
+      .map(o => [o, toRDPoints(filterScatterData(mergedData, o))] as const)
+      .filter(([, points]) => points.length > 0)) as Partial<Record<OutcomeType, ReturnType<typeof toRDPoints>>>,
+    [mergedData, outcomes]
+  );
+
+  // Controls need covariates; without any, the columns with controls would be empty, so they are left out
+  const controlsMissing = useMemo(
+    () => !Object.values(pointsByOutcome).some(points => points!.some(p => p.covariates !== undefined)),
+    [pointsByOutcome]
+  );
+
+  // Every column swaps its variance for the chosen one
+  const tableSpecifications = useMemo(() => specifications
+    .filter(s => !(controlsMissing && s.options.controls))
+    .map(s => (variance === 'cluster' ? s : { ...s, options: { ...s.options, variance, conleyCutoff: cutoff } })),
+  [specifications, controlsMissing, variance, cutoff]);
+  const table = useMemo(
+    () => buildEstimatesTable(pointsByOutcome, tableSpecifications),
+    [pointsByOutcome, tableSpecifications]
+  );
+  const cells = useMemo(() => tableCells(table), [table]);
+
+  // Spatial correlation left in the local linear residuals, over shared district borders
+  const moran = useMemo(() => (Object.keys(pointsByOutcome) as OutcomeType[]).map(outcome => {
+    const points = pointsByOutcome[outcome]!;
+    const estimate = estimateRD(points, { order: 1 });
+    return { outcome, result: estimate ? residualMoransI(points, estimate, adjacency) : null };
+  }), [pointsByOutcome, adjacency]);
+
+  return (
+    <div className="estimates-table">
+      <h3 className="chart-title">Estimates across specifications</h3>
+      <div className="inference-controls">
+        {(Object.keys(VARIANCE_LABELS) as TableVariance[]).map(v => (
+          <button
+            key={v}
+            type="button"
+            className={v === variance ? 'active' : undefined}
+            onClick={() => setVariance(v)}
+          >
+            {VARIANCE_LABELS[v]}
+          </button>
+        ))}
+        {variance === 'conley' && (
+          <label className="cutoff-control">
+            cutoff
+            <input
+              type="range"
+              min={10}
+              max={150}
+              step={5}
+              value={cutoff}
+              onChange={e => setCutoff(Number(e.target.value))}
+            />
+            {cutoff} km
+          </label>
+        )}
+      </div>
+      <div className="export-controls">
+        {EXPORTS.map(e => (
+          <button key={e.label} type="button" onClick={() => download(e.filename, e.type, e.format(table))}>
+            {e.label}
+          </button>
+        ))}
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th />
+            {tableSpecifications.map(s => <th key={s.id}>{s.label}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {cells.map((row, i) => (
+            <tr key={i} className={i % 4 === 0 ? 'coefficient-row' : undefined}>
+              {row.map((cell, j) => (j === 0 ? <th key={j}>{cell}</th> : <td key={j}>{cell}</td>))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="analysis-caption">
+        {variance === 'cluster'
+          ? 'Province-clustered standard errors'
+          : `Conley standard errors (Bartlett kernel, ${cutoff} km cutoff)`} in parentheses.
+        * p &lt; 0.10, ** p &lt; 0.05, *** p &lt; 0.01.
+        Stunting in percentage points, consumption in log points.
+        {controlsMissing && ' Elevation and slope are not in the bundled data, so the specifications with geographic controls are left out.'}
+      </p>
+      <p className="analysis-caption">
+        Moran&apos;s I of the local linear residuals across neighboring districts (permutation p-values):{' '}
+        {moran.map(({ outcome, result }, i) => (
+          <span key={outcome}>
+            {i > 0 && '; '}
+            {OUTCOMES[outcome].label.toLowerCase()}{' '}
+            {result
+              ? `${result.statistic.toFixed(2)} (p = ${result.pValue.toFixed(3)}, ${result.n} districts)`
+              : 'too few neighboring districts'}
+          </span>
+        ))}.
+        Positive values mean neighbors share shocks, so standard errors that treat districts as
+        independent are too small.
+      </p>
+    </div>
+  );
+};
+
+export default EstimatesTable;
@@ -0,0 +1,167 @@
+import React, { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import {
+  OutcomeType,
+  InferenceMethod,
+  InferenceJob,
+  InferenceResult,
+  DEFAULT_DIMENSIONS,
+  DEFAULT_MARGIN,
+  OUTCOMES,
+  INFERENCE_DRAWS,
+  mergeData,
+  filterScatterData,
+  getInnerDimensions,
+  toRDPoints,
+  formatEffect,
+  renderNullDistribution,
+} from './viz';
+import { startInference } from './viz/inferenceClient';
+import DataSourceContext from './DataSourceContext';
+
+interface InferenceChartProps {
+  outcome: OutcomeType;
+  polynomialOrder?: number;
+  draws?: number;
+}
+
+const METHOD_LABELS: Record<InferenceMethod, string> = {
+  permutation: 'Permutation',
+  bootstrap: 'Cluster bootstrap',
+};
+
+const InferenceChart: React.FC<InferenceChartProps> = ({
+  outcome,
+  polynomialOrder = 1,
+  draws = INFERENCE_DRAWS,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const jobRef = useRef<InferenceJob | null>(null);
+  const dimensions = DEFAULT_DIMENSIONS;
+  const { innerWidth, innerHeight } = getInnerDimensions(dimensions, DEFAULT_MARGIN);
+
+  const [method, setMethod] = useState<InferenceMethod>('permutation');
+  const [progress, setProgress] = useState(0);
+  const [running, setRunning] = useState(true); // A run starts on mount
+  const [result, setResult] = useState<InferenceResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+
+  const source = useContext(DataSourceContext);
+  const mergedData = useMemo(() => (source ? mergeData('data', source) : mergeData()), [source]);
+  const points = useMemo(
+    () => toRDPoints(filterScatterData(mergedData, outcome)),
+    [mergedData, outcome]
+  );
+
+  // Refits run in a worker so the scroll animations stay smooth
+  const run = useCallback(() => {
+    jobRef.current?.cancel();
+    setResult(null);
+    setError(null);
+    setCancelled(false);
+    setProgress(0);
+    setRunning(true);
+
+    const job = startInference(
+      points,
+      { order: polynomialOrder, variance: 'cluster' },
+      { method, draws },
+      (completed, total) => setProgress(completed / total)
+    );
+    jobRef.current = job;
+    job.promise
+      .then(r => {
+        if (jobRef.current !== job) return;
+        setResult(r);
+        setRunning(false);
+      })
+      .catch((e: Error) => {
+        if (jobRef.current !== job) return;
+        setError(e.message);
+        setRunning(false);
+      });
+  }, [points, polynomialOrder, method, draws]);
+
+  const cancel = useCallback(() => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setCancelled(true);
+    setRunning(false);
+  }, []);
+
+  useEffect(() => {
+    run();
+    return () => {
+      jobRef.current?.cancel();
+      jobRef.current = null;
+    };
+  }, [run]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    if (!result) return;
+    const g = svg.append('g')
+      .attr('transform', `translate(${DEFAULT_MARGIN.left},${DEFAULT_MARGIN.top})`);
+
+    renderNullDistribution({
+      g,
+      result,
+      innerWidth,
+      innerHeight,
+      formatEstimate: value => formatEffect(value, outcome),
+    });
+  }, [result, outcome, innerWidth, innerHeight]);
+
+  return (
+    <div className="inference-chart">
+      <h3 className="chart-title">Resampling inference: {OUTCOMES[outcome].label}</h3>
+      <div className="inference-controls">
+        {(Object.keys(METHOD_LABELS) as InferenceMethod[]).map(m => (
+          <button
+            key={m}
+            type="button"
+            className={m === method ? 'active' : undefined}
+            onClick={() => setMethod(m)}
+          >
+            {METHOD_LABELS[m]}
+          </button>
+        ))}
+        {running
+          ? <button type="button" onClick={cancel}>Cancel</button>
+          : <button type="button" onClick={run}>Run again</button>}
+      </div>
+      {running && (
+        <div className="inference-progress" role="progressbar" aria-valuenow={Math.round(progress * 100)}>
+          <div className="inference-progress-bar" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+      <svg
+        ref={svgRef}
+        width="100%"
+        viewBox={`0 0 ${dimensions.width} ${dimensions.height}`}
+        style={{ maxWidth: '100%', height: 'auto' }}
+      />
+      <p className="analysis-caption">
+        {error && `Inference failed: ${error}`}
+        {!error && running && `Running ${draws} refits…`}
+        {!error && !running && !result && cancelled && 'Cancelled.'}
+        {/* A run that finishes without a result had too few districts to resample */}
+        {!error && !running && !result && !cancelled && 'Too few districts on each side of the boundary to resample.'}
+        {!error && result && result.method === 'permutation' && (
+          `Mita labels reshuffled ${result.draws.length} times among the ${result.nInside + result.nOutside} districts
+          within ${result.window.toFixed(1)} km of the boundary: permutation p = ${result.pValue.toFixed(3)}.`
+        )}
+        {!error && result && result.method === 'bootstrap' && (
+          `${result.draws.length} resamples of provinces, bandwidth ${result.window.toFixed(1)} km:
+          bootstrap 95% CI [${formatEffect(result.confidenceInterval[0], outcome)}, ${formatEffect(result.confidenceInterval[1], outcome)}].`
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default InferenceChart;
@@ -1,9 +1,9 @@
 import React, { useEffect, useRef, useMemo, useState } from 'react';
 import * as d3 from 'd3';
 import { geoMercator, geoPath } from 'd3-geo';
-import districtPolygons from '../data/districtPolygons.json';
 import mitaData from '../data/mitaData.json';
 import { colors } from '../colors';
+import { validateDistrictTopology } from './viz/validationUtils';
 
 interface MapToScatterProps {
   // 0 = map, 1 = scatter, intermediate values for animation
@@ -19,6 +19,9 @@ interface DistrictPolygon {
   polygon: [number, number][];
 }
 
+// Full-resolution outlines from the district topology
+const districtPolygons = validateDistrictTopology().data;
+
 interface DistrictData {
   ubigeo: number;
   distance: number | null;
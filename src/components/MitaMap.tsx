@@ -2,9 +2,9 @@ import React, { useEffect, useMemo } from 'react';
 import { MapContainer, TileLayer, Polygon, Marker, Popup, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import districtPolygons from '../data/districtPolygons.json';
 import mitaData from '../data/mitaData.json';
 import { colors } from '../colors';
+import { validateDistrictTopology } from './viz/validationUtils';
 
 // Fix for default marker icons in React-Leaflet
 import icon from 'leaflet/dist/images/marker-icon.png';
@@ -44,6 +44,9 @@ interface DistrictPolygon {
   polygon: [number, number][];
 }
 
+// Full-resolution outlines from the district topology
+const districtPolygons = validateDistrictTopology().data;
+
 interface DistrictData {
   ubigeo: number;
   distance: number | null;
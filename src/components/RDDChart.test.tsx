@@ -1,23 +1,23 @@
 /**
  * Tests for RDDChart component
  *
- * Note: D3 uses ES modules which Jest can't transform by default.
  * These tests focus on the data processing and configuration logic
- * rather than the DOM manipulation aspects.
+ * rather than the DOM manipulation aspects. Whether the bundled data
+ * reproduces the paper is checked in viz/replicationUtils.test.ts.
  */
+import { OUTCOMES } from './viz/outcomeUtils';
 
-export {};
+// Dell (2010) coefficients, as registered
+const PAPER_COEFFICIENTS = {
+  consumption: OUTCOMES.consumption.published as number,
+  stunting: OUTCOMES.stunting.published as number,
+  roads: OUTCOMES.roads.published as number,
+};
 
 // Test the data processing functions and paper coefficients
 describe('RDDChart configuration', () => {
   describe('paper coefficients', () => {
     // These values must match Dell (2010) exactly
-    const PAPER_COEFFICIENTS = {
-      consumption: -0.25,  // log points (≈ -22% consumption)
-      stunting: 0.06,      // 6 percentage points higher stunting
-      roads: -36,          // meters/km² road density (Table VIII, Panel C)
-    };
-
     it('has correct consumption coefficient (-0.25 log points)', () => {
       expect(PAPER_COEFFICIENTS.consumption).toBe(-0.25);
     });
@@ -2,6 +2,7 @@ import React, { useMemo, useRef, useEffect, useState } from 'react';
 import * as d3 from 'd3';
 import mitaData from '../data/mitaData.json';
 import { colors } from '../colors';
+import { weightedLeastSquares, polynomialDesign } from './viz';
 
 interface RDDChartProps {
   outcome: 'consumption' | 'stunting' | 'roads';
@@ -75,53 +76,25 @@ const calculateFittedLines = (outcome: 'consumption' | 'stunting' | 'roads') =>
   const insideData = data.filter((d) => d.isInside);
   const outsideData = data.filter((d) => !d.isInside);
 
-  // Simple linear OLS: y = a + b*x
-  const calcLinearOLS = (points: { distance: number; value: number }[]) => {
-    const n = points.length;
-    const sumX = points.reduce((s, p) => s + p.distance, 0);
-    const sumY = points.reduce((s, p) => s + p.value, 0);
-    const sumXY = points.reduce((s, p) => s + p.distance * p.value, 0);
-    const sumX2 = points.reduce((s, p) => s + p.distance * p.distance, 0);
-    const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-    const intercept = (sumY - slope * sumX) / n;
-    return { intercept, slope };
-  };
-
-  // Quadratic polynomial regression: y = a + b*x + c*x^2
-  const calcQuadraticOLS = (points: { distance: number; value: number }[]) => {
-    const n = points.length;
-    if (n < 3) {
-      const linear = calcLinearOLS(points);
-      return { ...linear, quadratic: 0 };
-    }
-
-    const sumX = points.reduce((s, p) => s + p.distance, 0);
-    const sumX2 = points.reduce((s, p) => s + p.distance ** 2, 0);
-    const sumX3 = points.reduce((s, p) => s + p.distance ** 3, 0);
-    const sumX4 = points.reduce((s, p) => s + p.distance ** 4, 0);
-    const sumY = points.reduce((s, p) => s + p.value, 0);
-    const sumXY = points.reduce((s, p) => s + p.distance * p.value, 0);
-    const sumX2Y = points.reduce((s, p) => s + p.distance ** 2 * p.value, 0);
-
-    const det = n * (sumX2 * sumX4 - sumX3 * sumX3) - sumX * (sumX * sumX4 - sumX3 * sumX2) + sumX2 * (sumX * sumX3 - sumX2 * sumX2);
-
-    if (Math.abs(det) < 1e-10) {
-      const linear = calcLinearOLS(points);
-      return { ...linear, quadratic: 0 };
-    }
-
-    const intercept = (sumY * (sumX2 * sumX4 - sumX3 * sumX3) - sumX * (sumXY * sumX4 - sumX2Y * sumX3) + sumX2 * (sumXY * sumX3 - sumX2Y * sumX2)) / det;
-    const slope = (n * (sumXY * sumX4 - sumX2Y * sumX3) - sumY * (sumX * sumX4 - sumX3 * sumX2) + sumX2 * (sumX * sumX2Y - sumXY * sumX2)) / det;
-    const quadratic = (n * (sumX2 * sumX2Y - sumX3 * sumXY) - sumX * (sumX * sumX2Y - sumXY * sumX2) + sumY * (sumX * sumX3 - sumX2 * sumX2)) / det;
-
-    return { intercept, slope, quadratic };
+  // Least-squares polynomial fit: y = a + b*x (+ c*x^2 ...)
+  const fitPolynomial = (points: { distance: number; value: number }[], order: number) => {
+    const fit = weightedLeastSquares(
+      polynomialDesign(points.map(p => p.distance), order),
+      points.map(p => p.value)
+    );
+    const coefficients = fit?.coefficients ?? [];
+    return Array.from({ length: order + 1 }, (_, j) => coefficients[j] ?? 0);
   };
 
   // Calculate both linear and polynomial fits
-  const insideLinear = calcLinearOLS(insideData);
-  const outsideLinear = calcLinearOLS(outsideData);
-  const insidePoly = calcQuadraticOLS(insideData);
-  const outsidePoly = calcQuadraticOLS(outsideData);
+  const [insideIntercept, insideSlope] = fitPolynomial(insideData, 1);
+  const [outsideIntercept, outsideSlope] = fitPolynomial(outsideData, 1);
+  const insideLinear = { intercept: insideIntercept, slope: insideSlope };
+  const outsideLinear = { intercept: outsideIntercept, slope: outsideSlope };
+  const [, insidePolySlope, insidePolyQuadratic] = fitPolynomial(insideData, 2);
+  const [, outsidePolySlope, outsidePolyQuadratic] = fitPolynomial(outsideData, 2);
+  const insidePoly = { slope: insidePolySlope, quadratic: insidePolyQuadratic };
+  const outsidePoly = { slope: outsidePolySlope, quadratic: outsidePolyQuadratic };
 
   // With flipped convention: inside (mita) is positive, outside (non-mita) is negative
   const maxInside = Math.max(...insideData.map((d) => d.distance));  // Positive values
@@ -1,6 +1,17 @@
-import React, { useState } from 'react';
+import React, { useContext, useMemo, useState } from 'react';
 import { Scrollama, Step } from 'react-scrollama';
 import UnifiedViz from './UnifiedViz';
+import PlaceboChart from './PlaceboChart';
+import BalancePanel from './BalancePanel';
+import SensitivityChart from './SensitivityChart';
+import DensityChart from './DensityChart';
+import GeoRDMap from './GeoRDMap';
+import InferenceChart from './InferenceChart';
+import SubgroupPanel from './SubgroupPanel';
+import EstimatesTable from './EstimatesTable';
+import ReplicationPanel from './ReplicationPanel';
+import DataSourceContext from './DataSourceContext';
+import { DistrictField, OutcomeType, BALANCE_VARIABLES, mergeData, filterScatterData } from './viz';
 import './ScrollyStory.css';
 
 interface StepData {
@@ -9,13 +20,22 @@ interface StepData {
   text: string;
   // Unified viz state
   morphProgress: number; // 0 = map, 1 = scatter
-  outcome: 'stunting' | 'consumption' | 'roads';
+  outcome: OutcomeType;
   showDistricts: boolean;
-  scatterPhase: 'dots' | 'ols' | 'naive-effect' | 'effect';
+  scatterPhase: 'dots' | 'ols' | 'naive-effect' | 'effect' | 'binned';
   zoomLevel: 'peru' | 'mita';
   highlightMode?: 'none' | 'boundary' | 'mita-only' | 'nonmita-only';
   dotEmphasis?: 'normal' | 'pulse' | 'dimmed';  // Visual emphasis on dots
   showAxisGuide?: boolean;  // Show axis explanation guides
+  polynomialOrder?: number;  // RD polynomial order on each side (1 = local linear)
+  showControls?: boolean;  // Show the estimate with and without geographic controls
+  showSegments?: boolean;  // Draw the boundary segments behind segment fixed effects
+  binMethod?: 'even' | 'quantile';  // Bin spacing for the 'binned' phase
+  donutRadius?: number;  // km; districts this close to the boundary are left out of the fit
+  weighted?: boolean;  // Weight by survey sample size (only uploaded data has household/child counts)
+  distanceOrigin?: 'coordinates' | 'centroid' | 'edge';  // Where distance to the boundary is measured from
+  chart?: 'placebo' | 'balance' | 'sensitivity' | 'density' | 'geo' | 'inference' | 'subgroups' | 'table' | 'replication';  // Replace the unified viz with a standalone analysis chart
+  requires?: DistrictField[];  // Only shown when the data has values for one of these fields
 }
 
 // All main content steps (between intro and conclusion)
@@ -56,13 +76,14 @@ const mainSteps: StepData[] = [
   {
     id: 'boundary',
     title: 'Focus on the boundary',
-    text: 'The solution: compare districts right at the boundary. Communities just inside vs. just outside were nearly identical before 1573—same geography, same climate, same Inca heritage. The only difference was which side of an administrative line they fell on.',
+    text: 'The solution: compare districts right at the boundary. Communities just inside vs. just outside were nearly identical before 1573—same geography, same climate, same Inca heritage. The only difference was which side of an administrative line they fell on. Splitting the line into numbered segments lets us compare each district only with neighbors along the same stretch of boundary.',
     morphProgress: 0,
     outcome: 'stunting',
     showDistricts: true,
     scatterPhase: 'dots',
     zoomLevel: 'mita',
     highlightMode: 'boundary',
+    showSegments: true,
   },
   {
     id: 'transform',
@@ -110,22 +131,142 @@ const mainSteps: StepData[] = [
   {
     id: 'stunting',
     title: 'The controlled estimate',
-    text: 'Dell\'s paper uses polynomial RD with controls for elevation, slope, and other geographic factors. The refined estimate: 6 percentage points higher stunting in mita districts—about 15% above the baseline rate. Colonial exploitation continues to harm children generations later.',
+    text: 'Fitting a curve on each side and comparing only districts near the line flips the sign: the quadratic RD fit puts stunting about 4 percentage points higher in mita districts, though with an interval wide enough to include zero. Dell goes further, controlling for elevation, slope and other geographic factors, and finds 6 points—about 15% above the baseline rate. The bundled district file has no elevation or slope, so that controlled estimate is the paper\'s; load a CSV with elevation and slope columns and it is computed here next to the plain RD estimate.',
     morphProgress: 1,
     outcome: 'stunting',
     showDistricts: true,
     scatterPhase: 'effect',
     zoomLevel: 'mita',
+    polynomialOrder: 2,
+    showControls: true,
+  },
+  {
+    id: 'binned',
+    title: 'Seeing through the noise',
+    text: 'Individual districts vary a lot, which makes the jump hard to see. The standard way to present a regression discontinuity is to group districts into bins by distance and plot each bin\'s average, with error bars. Watch the dots collapse into their bin means: the gap at the boundary stands out against the fitted curves.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'binned',
+    zoomLevel: 'mita',
+    polynomialOrder: 2,
+    binMethod: 'even',
+  },
+  {
+    id: 'donut',
+    title: 'Leaving out the districts on the line',
+    text: 'Districts sitting right on the boundary are the ones most likely to be misclassified, or to have traded and intermarried across it. A "donut" design drops them: the hollow dots are the twelve districts within 3 km of the line, and the local linear fit now uses only the rest. The estimate shifts, but stays well inside its wide confidence interval—the handful of districts on the line are not what drives the result.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    donutRadius: 3,
+  },
+  {
+    id: 'running-variable',
+    title: 'Distance from where?',
+    text: 'Every distance so far runs from one point in each district to the boundary. Measure it instead from the nearest edge of the district and the districts that touch the line all sit at zero, with everyone else pulled toward it. The local linear jump in stunting moves from about +1.8 points to about zero—and measured from the polygon centroids it is about −3. Every version has a confidence interval spanning zero: where distance is measured from shifts the estimate by as much as the estimate itself.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    distanceOrigin: 'edge',
+  },
+  {
+    id: 'placebo',
+    title: 'Is the jump at the boundary special?',
+    text: 'If the jump were just noise, we would find similar jumps anywhere. So we pretend the boundary sits somewhere else—every 5 km from 40 km outside to 40 km inside—and re-estimate the discontinuity using only districts on one side of the real line. If the mita mattered, the real boundary (highlighted) should stand out while the fake cutoffs scatter around zero. With fewer than two hundred districts, a few placebos are noisy too—which is exactly why one significant jump is not proof on its own.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    polynomialOrder: 2,
+    chart: 'placebo',
+  },
+  {
+    id: 'inference',
+    title: 'How surprising is the jump?',
+    text: 'Standard errors rest on formulas that can mislead with a couple of hundred districts. Two checks lean on the data instead. A permutation test treats mita status as if it were assigned at random near the line, reshuffles it a thousand times, and asks how often chance alone produces a gap as large as the real one. A cluster bootstrap redraws whole provinces with replacement and re-estimates the jump each time, showing how much it could move in a different sample.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    polynomialOrder: 2,
+    chart: 'inference',
+  },
+  {
+    id: 'sensitivity',
+    title: 'Does the window matter?',
+    text: 'The scatter plot shows districts within 50 km of the boundary, and the fit uses an even narrower window. A skeptic might ask whether a different window would change the answer. Here is the estimated jump as the bandwidth grows from 10 km to 100 km: narrow windows are noisy, wide ones lean on districts far from the line.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    polynomialOrder: 2,
+    chart: 'sensitivity',
+  },
+  {
+    id: 'balance',
+    title: 'Were the two sides alike before?',
+    text: 'The boundary comparison only works if districts on either side were similar before the mita began. We can check: run exactly the same regression discontinuity on characteristics fixed before 1573—elevation, slope, and tribute-era population. If the design is sound, none of them should jump at the line.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    chart: 'balance',
+    requires: BALANCE_VARIABLES,
+  },
+  {
+    id: 'density',
+    title: 'Did anyone sort across the line?',
+    text: 'A boundary design breaks down if places could choose their side—if, say, communities had been redrawn to escape the draft. That would show up as too many districts bunched on one side. This histogram counts districts by distance to the boundary, with a smooth density fitted on each side: a gap between the two curves at the line would be a red flag.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    polynomialOrder: 2,
+    chart: 'density',
+  },
+  {
+    id: 'geo-rd',
+    title: 'Comparing neighbors on the map',
+    text: 'Distance to the boundary throws away where along the line a district sits. Dell\'s main specification instead controls for a cubic in latitude and longitude, so each district is compared with its geographic neighbors across the line. The map shows that fitted surface, and the circles on the boundary show the jump it implies at each point. With the bundled districts the stunting estimate is small and imprecise—a reminder that these results lean on the paper\'s fuller sample.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    chart: 'geo',
+  },
+  {
+    id: 'subgroups',
+    title: 'Is the effect the same everywhere?',
+    text: 'Every district code (ubigeo) embeds its department and province, so we can re-run the comparison one department at a time. The boundary mostly runs through Apurímac and Cusco; Arequipa lies entirely outside the mita, and Ayacucho and Puno entirely inside, so only the first two support a local estimate. Even those are thin: Apurímac has just five districts outside the mita, so its interval is very wide, and differences between departments are hard to tell apart from noise.',
+    morphProgress: 1,
+    outcome: 'stunting',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    polynomialOrder: 1,
+    chart: 'subgroups',
   },
   {
     id: 'consumption',
     title: 'Finding #2: Lower consumption',
-    text: 'The same pattern appears for household consumption. Mita districts have about 22% lower consumption today—a coefficient of -0.25 log points. The persistent poverty reflects centuries of institutional disadvantage.',
+    text: 'Dell finds the same pattern for household consumption: about 22% lower in mita districts, a coefficient of −0.25 log points. Only 52 of the bundled districts report consumption, so the local linear fit here rests on the 26 within about 24 km of the line. It points the same way—about 35% lower—but its confidence interval runs from roughly 80% lower to twice as high, so on this sample alone the gap could be noise.',
     morphProgress: 1,
     outcome: 'consumption',
     showDistricts: true,
     scatterPhase: 'effect',
     zoomLevel: 'mita',
+    weighted: true,
   },
   {
     id: 'roads',
@@ -137,10 +278,32 @@ const mainSteps: StepData[] = [
     scatterPhase: 'effect',
     zoomLevel: 'mita',
   },
+  {
+    id: 'table',
+    title: 'All the estimates in one place',
+    text: 'Economists summarize a design like this in a table: one row per outcome, one column per specification, each coefficient with its standard error, sample size and bandwidth—the layout of Dell\'s Table II. This one is computed live from the same fitting code as the charts above, and can be downloaded as LaTeX, CSV or Markdown. Neighboring districts share weather, markets and roads, and the residuals show it: Moran\'s I is clearly positive for stunting and roads. Switching to Conley standard errors, which let the errors of districts within a chosen distance move together, shows how much that matters.',
+    morphProgress: 1,
+    outcome: 'roads',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    chart: 'table',
+  },
+  {
+    id: 'replication',
+    title: 'Does this data reproduce the paper?',
+    text: 'Everything here is computed from the district data bundled with this page, not copied from the paper. So it is fair to ask how close it comes. Running Dell\'s own baseline specification, we land within a quarter of her published consumption and road coefficients. Stunting is the exception: Dell measures it on individual children with household controls, and the district averages here do not recover her estimate.',
+    morphProgress: 1,
+    outcome: 'roads',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    chart: 'replication',
+  },
   {
     id: 'mechanism',
     title: 'Why do effects persist?',
-    text: 'The mita blocked hacienda formation, reducing long-term investments in land, infrastructure, and human capital. These institutional differences compounded over centuries, producing the disparities we observe today.',
+    text: 'Dell traces the gap to land tenure. The mita reserved labor for the mines, so large haciendas formed mostly outside the boundary, and their owners had the weight to secure roads and, later, schools. Her channel evidence—haciendas in 1689, schooling and market participation—is not in the district file bundled with this page. Load a CSV that has it (the uploader in the corner maps its columns to these outcomes) and a chart for each channel follows this one.',
     morphProgress: 1,
     outcome: 'roads',
     showDistricts: true,
@@ -148,16 +311,55 @@ const mainSteps: StepData[] = [
     zoomLevel: 'mita',
     dotEmphasis: 'dimmed',
   },
+  {
+    id: 'haciendas',
+    title: 'Channel #1: Land tenure',
+    text: 'Haciendas needed labor, and in mita districts the colonial state reserved that labor for the mines. Large estates therefore formed mostly outside the boundary: Dell\'s 1689 records show far fewer haciendas per district on the mita side.',
+    morphProgress: 1,
+    outcome: 'haciendas1689',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    requires: ['haciendas1689'],
+  },
+  {
+    id: 'schooling',
+    title: 'Channel #2: Education',
+    text: 'Hacienda owners had the political weight to secure public goods, roads and later schools among them. Their absence still shows in education: Dell finds that mita districts lag in schooling today.',
+    morphProgress: 1,
+    outcome: 'schooling',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    requires: ['schooling'],
+  },
+  {
+    id: 'markets',
+    title: 'Channel #3: Market participation',
+    text: 'Without roads to reach them, markets stay out of reach. Residents of mita districts are substantially more likely to be subsistence farmers, so a smaller share of agricultural producers sells in markets.',
+    morphProgress: 1,
+    outcome: 'marketSelling',
+    showDistricts: true,
+    scatterPhase: 'effect',
+    zoomLevel: 'mita',
+    requires: ['marketSelling'],
+  },
 ];
 
 const ScrollyStory: React.FC = () => {
-  const [currentStepIndex, setCurrentStepIndex] = useState(0);
-  const currentStep = mainSteps[currentStepIndex] || mainSteps[0];
-  const totalSteps = mainSteps.length + 2; // +2 for intro and conclusion
+  const source = useContext(DataSourceContext);
+  // Steps whose fields have no values in the data (bundled or uploaded) are left out
+  const steps = useMemo(() => {
+    const mergedData = source ? mergeData('data', source) : mergeData();
+    return mainSteps.filter(s => !s.requires || s.requires.some(f => filterScatterData(mergedData, f).length > 0));
+  }, [source]);
+  const [currentStepId, setCurrentStepId] = useState(mainSteps[0].id);
+  const currentStepIndex = Math.max(0, steps.findIndex(s => s.id === currentStepId));
+  const currentStep = steps[currentStepIndex];
+  const totalSteps = steps.length + 2; // +2 for intro and conclusion
 
   const onStepEnter = ({ data }: { data: StepData }) => {
-    const idx = mainSteps.findIndex(s => s.id === data.id);
-    if (idx >= 0) setCurrentStepIndex(idx);
+    setCurrentStepId(data.id);
   };
 
   return (
@@ -189,21 +391,61 @@ const ScrollyStory: React.FC = () => {
       <section className="scrolly-section main-section">
         <div className="sticky-graphic">
           <div className="graphic-container">
-            <UnifiedViz
-              morphProgress={currentStep.morphProgress}
-              outcome={currentStep.outcome}
-              showDistricts={currentStep.showDistricts}
-              scatterPhase={currentStep.scatterPhase}
-              zoomLevel={currentStep.zoomLevel}
-              highlightMode={currentStep.highlightMode}
-              dotEmphasis={currentStep.dotEmphasis}
-              showAxisGuide={currentStep.showAxisGuide}
-            />
+            {currentStep.chart === 'placebo' && (
+              <PlaceboChart
+                outcome={currentStep.outcome}
+                polynomialOrder={currentStep.polynomialOrder}
+              />
+            )}
+            {currentStep.chart === 'balance' && (
+              <BalancePanel polynomialOrder={currentStep.polynomialOrder} />
+            )}
+            {currentStep.chart === 'sensitivity' && (
+              <SensitivityChart
+                outcome={currentStep.outcome}
+                polynomialOrder={currentStep.polynomialOrder}
+              />
+            )}
+            {currentStep.chart === 'inference' && (
+              <InferenceChart
+                outcome={currentStep.outcome}
+                polynomialOrder={currentStep.polynomialOrder}
+              />
+            )}
+            {currentStep.chart === 'density' && <DensityChart />}
+            {currentStep.chart === 'geo' && <GeoRDMap outcome={currentStep.outcome} />}
+            {currentStep.chart === 'table' && <EstimatesTable />}
+            {currentStep.chart === 'replication' && <ReplicationPanel />}
+            {currentStep.chart === 'subgroups' && (
+              <SubgroupPanel
+                outcome={currentStep.outcome}
+                polynomialOrder={currentStep.polynomialOrder}
+              />
+            )}
+            <div style={{ display: currentStep.chart ? 'none' : undefined }}>
+              <UnifiedViz
+                morphProgress={currentStep.morphProgress}
+                outcome={currentStep.outcome}
+                showDistricts={currentStep.showDistricts}
+                scatterPhase={currentStep.scatterPhase}
+                zoomLevel={currentStep.zoomLevel}
+                highlightMode={currentStep.highlightMode}
+                dotEmphasis={currentStep.dotEmphasis}
+                showAxisGuide={currentStep.showAxisGuide}
+                polynomialOrder={currentStep.polynomialOrder}
+                showControls={currentStep.showControls}
+                showSegments={currentStep.showSegments}
+                binMethod={currentStep.binMethod}
+                donutRadius={currentStep.donutRadius}
+                weighted={currentStep.weighted}
+                distanceOrigin={currentStep.distanceOrigin}
+              />
+            </div>
           </div>
         </div>
         <div className="scrolly-text">
           <Scrollama onStepEnter={onStepEnter} offset={0.5}>
-            {mainSteps.map((step) => (
+            {steps.map((step) => (
               <Step key={step.id} data={step}>
                 <div className={`narrative-step ${currentStep.id === step.id ? 'active' : ''}`}>
                   <h2>{step.title}</h2>
@@ -0,0 +1,91 @@
+import React, { useContext, useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import {
+  OutcomeType,
+  DEFAULT_DIMENSIONS,
+  DEFAULT_MARGIN,
+  OUTCOMES,
+  SENSITIVITY_BANDWIDTHS,
+  mergeData,
+  filterScatterData,
+  createXScale,
+  getInnerDimensions,
+  toRDPoints,
+  estimateRD,
+  estimateAcrossBandwidths,
+  renderSensitivityChart,
+} from './viz';
+import DataSourceContext from './DataSourceContext';
+
+interface SensitivityChartProps {
+  outcome: OutcomeType;
+  polynomialOrder?: number;
+  bandwidths?: number[]; // km
+}
+
+const SensitivityChart: React.FC<SensitivityChartProps> = ({
+  outcome,
+  polynomialOrder = 1,
+  bandwidths = SENSITIVITY_BANDWIDTHS,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dimensions = DEFAULT_DIMENSIONS;
+  const { innerWidth, innerHeight } = getInnerDimensions(dimensions, DEFAULT_MARGIN);
+
+  const source = useContext(DataSourceContext);
+  const mergedData = useMemo(() => (source ? mergeData('data', source) : mergeData()), [source]);
+  const points = useMemo(
+    () => toRDPoints(filterScatterData(mergedData, outcome)),
+    [mergedData, outcome]
+  );
+  const results = useMemo(
+    () => estimateAcrossBandwidths(points, bandwidths, { order: polynomialOrder }),
+    [points, bandwidths, polynomialOrder]
+  );
+  const optimal = useMemo(
+    () => estimateRD(points, { order: polynomialOrder }),
+    [points, polynomialOrder]
+  );
+
+  // Half-width of the scatter plot's distance axis
+  const windowWidth = createXScale(innerWidth).domain()[1];
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    const g = svg.append('g')
+      .attr('transform', `translate(${DEFAULT_MARGIN.left},${DEFAULT_MARGIN.top})`);
+
+    renderSensitivityChart({
+      g,
+      results,
+      optimalBandwidth: optimal?.bandwidth ?? null,
+      windowWidth,
+      innerWidth,
+      innerHeight,
+      currentOutcome: outcome,
+    });
+  }, [results, optimal, windowWidth, outcome, innerWidth, innerHeight]);
+
+  const maxDistance = Math.max(...points.map(p => Math.abs(p.scatterX)), 0);
+
+  return (
+    <div className="sensitivity-chart">
+      <h3 className="chart-title">Bandwidth sensitivity: {OUTCOMES[outcome].label}</h3>
+      <svg
+        ref={svgRef}
+        width="100%"
+        viewBox={`0 0 ${dimensions.width} ${dimensions.height}`}
+        style={{ maxWidth: '100%', height: 'auto' }}
+      />
+      <p className="analysis-caption">
+        Every district in the data lies within {Math.ceil(maxDistance)} km of the boundary,
+        so bandwidths beyond that only change how the same districts are weighted.
+      </p>
+    </div>
+  );
+};
+
+export default SensitivityChart;
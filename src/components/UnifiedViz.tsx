@@ -1,33 +1,49 @@
-import React, { useEffect, useRef, useMemo, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useMemo, useState, useCallback, useContext } from 'react';
 import * as d3 from 'd3';
 import southAmerica from '../data/southAmerica.json';
 import { colors } from '../colors';
+import DataSourceContext from './DataSourceContext';
 import {
   OutcomeType,
+  DistanceOrigin,
   ScatterPhase,
   ZoomLevel,
   HighlightMode,
+  BinMethod,
   MergedDistrictData,
   DEFAULT_DIMENSIONS,
   DEFAULT_MARGIN,
-  OUTCOME_LABELS,
+  OUTCOMES,
+  formatOutcomeValue,
+  COVARIATE_LABELS,
+  COVARIATES,
+  BOUNDARY_SEGMENT_COUNT,
+  BINS_PER_SIDE,
   ANIMATION,
   MORPH_TIMING,
   mergeData,
   filterScatterData,
   getAllScatterData,
-  computeBoundaryDistricts,
+  districtAdjacency,
+  boundaryDistricts,
+  districtOutlines,
+  districtGeometry,
+  splitBoundary,
   createProjection,
   createXScale,
   createYScales,
   getInnerDimensions,
+  createRadiusScale,
   calculateFittedLines,
+  binScatterData,
+  formatEffect,
   renderMap,
   renderScatterBackgrounds,
   renderScatterLabels,
   renderScatterAxes,
   renderMorph,
   renderFittedLines,
+  renderBins,
 } from './viz';
 
 interface TooltipData {
@@ -47,6 +63,13 @@ interface UnifiedVizProps {
   highlightMode?: HighlightMode;
   dotEmphasis?: DotEmphasis;
   showAxisGuide?: boolean;
+  polynomialOrder?: number; // Order of the RD fit on each side in the 'effect' phase
+  showControls?: boolean; // Compare the RD estimate with and without geographic controls
+  showSegments?: boolean; // Draw the boundary segments used for segment fixed effects
+  binMethod?: BinMethod; // Bin spacing in the 'binned' phase
+  donutRadius?: number; // km; districts this close to the boundary are drawn hollow and left out of the fit
+  weighted?: boolean; // Weight the fit and dot sizes by survey sample size; only uploaded data has one
+  distanceOrigin?: DistanceOrigin; // Where the running variable is measured from
 }
 
 const UnifiedViz: React.FC<UnifiedVizProps> = ({
@@ -58,6 +81,13 @@ const UnifiedViz: React.FC<UnifiedVizProps> = ({
   highlightMode = 'none',
   dotEmphasis = 'normal',
   showAxisGuide = false,
+  polynomialOrder = 1,
+  showControls = false,
+  showSegments = false,
+  binMethod = 'even',
+  donutRadius = 0,
+  weighted = false,
+  distanceOrigin = 'coordinates',
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [dimensions] = useState(DEFAULT_DIMENSIONS);
@@ -87,14 +117,37 @@ const UnifiedViz: React.FC<UnifiedVizProps> = ({
   }, []);
 
   // Memoized data
-  const mergedData = useMemo(() => mergeData(), []);
-  const boundaryUbigeos = useMemo(() => computeBoundaryDistricts(mergedData), [mergedData]);
+  const source = useContext(DataSourceContext);
+  const mergedData = useMemo(
+    () => (source ? mergeData('data', source) : mergeData(distanceOrigin)),
+    [source, distanceOrigin]
+  );
+  const boundaryUbigeos = useMemo(() => boundaryDistricts(districtAdjacency(source)), [source]);
+  // Bundled outlines simplified for where the map is zooming to; uploads draw their own rings
+  const outlines = useMemo(() => (source ? null : districtOutlines(zoomLevel)), [source, zoomLevel]);
+  // The mita boundary segments only mean something on the bundled data
+  const boundarySegments = useMemo(() => (source ? [] : splitBoundary(BOUNDARY_SEGMENT_COUNT)), [source]);
   const { innerWidth, innerHeight } = getInnerDimensions(dimensions, DEFAULT_MARGIN);
 
-  // South America features
-  const saFeatures = (southAmerica as any).features;
-  const peruFeature = saFeatures.find((f: any) => f.properties?.name === 'Peru');
-  const neighborFeatures = saFeatures.filter((f: any) => f.properties?.name !== 'Peru');
+  // South America features; uploaded data brings its own study area instead of Peru
+  const { peruFeature, neighborFeatures } = useMemo(() => {
+    const saFeatures = (southAmerica as any).features;
+    if (source) {
+      const studyArea = {
+        type: 'Feature',
+        properties: { name: source.name },
+        geometry: {
+          type: 'MultiPolygon',
+          coordinates: source.polygons.flatMap(p => districtGeometry(p).coordinates),
+        },
+      };
+      return { peruFeature: studyArea, neighborFeatures: [] };
+    }
+    return {
+      peruFeature: saFeatures.find((f: any) => f.properties?.name === 'Peru'),
+      neighborFeatures: saFeatures.filter((f: any) => f.properties?.name !== 'Peru'),
+    };
+  }, [source]);
 
   // Animation effects
   useEffect(() => {
@@ -184,18 +237,34 @@ const UnifiedViz: React.FC<UnifiedVizProps> = ({
 
   // Computed data
   const scatterData = useMemo(
-    () => filterScatterData(mergedData, currentOutcome),
-    [mergedData, currentOutcome]
+    () => filterScatterData(mergedData, currentOutcome, donutRadius),
+    [mergedData, currentOutcome, donutRadius]
   );
 
   const allScatterData = useMemo(
-    () => getAllScatterData(mergedData),
-    [mergedData]
+    () => getAllScatterData(mergedData, donutRadius),
+    [mergedData, donutRadius]
   );
 
+  // Weighting (the fit, the dot sizes and their caption) only applies when the outcome carries
+  // sample sizes; otherwise nothing about it is shown
+  const isWeighted = weighted && scatterData.some(d => d.weight !== null);
+
+  const hasCovariates = scatterData.some(d => COVARIATES.every(c => d[c] !== null));
+
   const fittedLines = useMemo(
-    () => calculateFittedLines(scatterData, currentOutcome),
-    [scatterData, currentOutcome]
+    () => calculateFittedLines(scatterData, { order: polynomialOrder, weighted: isWeighted }),
+    [scatterData, polynomialOrder, isWeighted]
+  );
+
+  const dotRadius = useMemo(
+    () => createRadiusScale(scatterData, isWeighted),
+    [scatterData, isWeighted]
+  );
+
+  const bins = useMemo(
+    () => binScatterData(scatterData, BINS_PER_SIDE, binMethod),
+    [scatterData, binMethod]
   );
 
   // Main render effect
@@ -214,7 +283,7 @@ const UnifiedViz: React.FC<UnifiedVizProps> = ({
 
     // Clear elements appropriately
     if (shouldPreserveElements || isAtFullScatter) {
-      svg.selectAll('*:not(.morph-dot):not(.inside-line):not(.outside-line):not(.effect-line):not(.effect-label-rect):not(.effect-label-text):not(.main-group)').remove();
+      svg.selectAll('*:not(.morph-dot):not(.inside-line):not(.outside-line):not(.inside-band):not(.outside-band):not(.effect-line):not(.effect-whisker):not(.effect-label-rect):not(.effect-label-text):not(.bin-mean):not(.bin-errorbar):not(.main-group)').remove();
     } else {
       svg.selectAll('*').remove();
     }
@@ -270,7 +339,9 @@ const UnifiedViz: React.FC<UnifiedVizProps> = ({
         innerHeight,
         highlightMode,
         boundaryUbigeos,
+        boundarySegments: showSegments ? boundarySegments : undefined,
         onHover: handleDistrictHover,
+        outlines,
       });
     } else {
       // Morph/scatter phase
@@ -288,11 +359,14 @@ const UnifiedViz: React.FC<UnifiedVizProps> = ({
         scatterUbigeos,
         morphT,
         currentOutcome,
+        scatterPhase,
+        dotRadius,
         margin,
         innerHeight,
         isOutcomeTransition: isOutcomeOnlyTransition,
         isPhaseTransition,
         onHover: handleDistrictHover,
+        outlines,
       });
     }
 
@@ -310,16 +384,28 @@ const UnifiedViz: React.FC<UnifiedVizProps> = ({
         shouldPreserveElements,
       });
 
+      renderBins({
+        svg,
+        bins: scatterPhase === 'binned' ? bins : [],
+        scatterData,
+        xScale,
+        yScale,
+        margin,
+        animate: prevScatterPhaseRef.current !== 'binned' || isOutcomeOnlyTransition,
+      });
+
       prevScatterPhaseRef.current = scatterPhase;
     }
 
     prevOutcomeRef.current = currentOutcome;
 
-  }, [currentProgress, currentOutcome, scatterPhase, mergedData, scatterData, allScatterData, fittedLines, dimensions, showDistricts, currentZoom, borderOpacity, innerWidth, innerHeight, peruFeature, neighborFeatures, handleDistrictHover, highlightMode, boundaryUbigeos]);
+  }, [currentProgress, currentOutcome, scatterPhase, mergedData, scatterData, allScatterData, fittedLines, dimensions, showDistricts, currentZoom, borderOpacity, innerWidth, innerHeight, peruFeature, neighborFeatures, handleDistrictHover, highlightMode, boundaryUbigeos, showSegments, boundarySegments, bins, dotRadius, outlines]);
+
+  const tooltipValue = tooltip?.district[currentOutcome] ?? null;
 
   const getTitle = () => {
     if (currentProgress < 0.3) return 'The mita boundary';
-    return OUTCOME_LABELS[currentOutcome];
+    return OUTCOMES[currentOutcome].label;
   };
 
   return (
@@ -350,6 +436,53 @@ const UnifiedViz: React.FC<UnifiedVizProps> = ({
           </div>
         </div>
       )}
+      {showControls && scatterPhase === 'effect' && currentProgress >= 1 && fittedLines.rdEstimate && (
+        <div className="estimate-comparison">
+          {[
+            { label: 'RD estimate', estimate: fittedLines.rdEstimate, title: undefined, missing: 'Not estimable' },
+            {
+              label: 'With geographic controls',
+              estimate: fittedLines.controlledEstimate,
+              title: COVARIATES.map(c => COVARIATE_LABELS[c]).join(', '),
+              missing: hasCovariates
+                ? 'Not estimable with controls'
+                : `No ${COVARIATES.join(' or ')} in the ${source ? 'loaded' : 'bundled'} data`,
+            },
+            {
+              label: 'With segment effects',
+              estimate: fittedLines.segmentEstimate,
+              title: `Fixed effects for ${BOUNDARY_SEGMENT_COUNT} equal-length boundary segments`,
+              missing: 'Not estimable with segment effects',
+            },
+          ].map(({ label, estimate, title, missing }) => (
+            <div className="estimate-cell" key={label} title={title}>
+              <span className="estimate-cell-label">{label}</span>
+              {estimate ? (
+                <span className="estimate-cell-value">
+                  {formatEffect(
+                    estimate.estimate,
+                    currentOutcome,
+                    (estimate.confidenceInterval[1] - estimate.confidenceInterval[0]) / 2
+                  )}
+                </span>
+              ) : (
+                <span className="estimate-cell-value unavailable">{missing}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {currentProgress >= 1 && scatterData.length === 0 && (
+        <div className="outcome-unavailable">
+          No {OUTCOMES[currentOutcome].name.toLowerCase()} values in the {source ? 'loaded' : 'bundled'} data.
+          Load a CSV with this column to run the chart.
+        </div>
+      )}
+      {isWeighted && currentProgress >= 1 && (
+        <p className="analysis-caption">
+          Weighted by survey sample size: larger dots count for more in the fit.
+        </p>
+      )}
       {/* Axis guide overlay for rdd-intro step */}
       {showAxisGuide && currentProgress >= 1 && (
         <div
@@ -481,19 +614,9 @@ const UnifiedViz: React.FC<UnifiedVizProps> = ({
               {Math.abs(tooltip.district.distance).toFixed(1)} km {tooltip.district.isInside ? 'inside' : 'outside'}
             </div>
           )}
-          {currentOutcome === 'stunting' && tooltip.district.stunting !== null && (
-            <div style={{ marginTop: '4px', color: colors.terracottaLight }}>
-              Stunting: {(tooltip.district.stunting * 100).toFixed(1)}%
-            </div>
-          )}
-          {currentOutcome === 'consumption' && tooltip.district.consumption !== null && (
-            <div style={{ marginTop: '4px', color: colors.terracottaLight }}>
-              Consumption: {tooltip.district.consumption.toFixed(2)}
-            </div>
-          )}
-          {currentOutcome === 'roads' && tooltip.district.roads !== null && (
+          {tooltipValue !== null && (
             <div style={{ marginTop: '4px', color: colors.terracottaLight }}>
-              Roads: {tooltip.district.roads.toFixed(0)} m/km²
+              {OUTCOMES[currentOutcome].name}: {formatOutcomeValue(tooltipValue, currentOutcome)}
             </div>
           )}
         </div>
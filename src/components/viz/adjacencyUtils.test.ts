@@ -0,0 +1,56 @@
+/**
+ * Tests for the district adjacency graph: shared borders, their lengths and the mita boundary
+ */
+import districtAdjacencyJson from '../../data/districtAdjacency.json';
+import {
+  buildAdjacencyGraph,
+  buildBundledAdjacency,
+  districtAdjacency,
+  getNeighbors,
+  boundaryDistricts,
+  neighborLists,
+} from './adjacencyUtils';
+import { haversineDistance } from './geometryUtils';
+import { DistrictPolygon } from './types';
+
+// [lat, lon] unit squares: b borders a along lon = 1 with vertices of its own, slightly off a's
+// edge; c touches a only at a corner
+const a: DistrictPolygon = { ubigeo: 1, mita: 1, polygon: [[0, 0], [0, 1], [1, 1], [1, 0], [0, 0]] };
+const b: DistrictPolygon = {
+  ubigeo: 2,
+  mita: 0,
+  polygon: [[0, 1.0005], [0.3, 1.001], [0.7, 0.9995], [1, 1], [1, 2], [0, 2], [0, 1.0005]],
+};
+const c: DistrictPolygon = { ubigeo: 3, mita: 0, polygon: [[1, -1], [2, -1], [2, 0], [1, 0], [1, -1]] };
+
+describe('adjacencyUtils', () => {
+  const graph = buildAdjacencyGraph([a, b, c]);
+
+  it('finds borders whose vertices do not line up, with their length', () => {
+    const [neighbor] = getNeighbors(1, graph);
+    expect(getNeighbors(1, graph)).toHaveLength(1);
+    expect(neighbor).toMatchObject({ ubigeo: 2, onMitaBoundary: true });
+    expect(neighbor.sharedLength).toBeCloseTo(haversineDistance([0, 1], [1, 1]), -1);
+    expect(getNeighbors(2, graph)[0].sharedLength).toBe(neighbor.sharedLength);
+  });
+
+  it('leaves out districts that only touch at a corner', () => {
+    expect(getNeighbors(3, graph)).toEqual([]);
+    expect(neighborLists(graph)).toEqual(new Map([[1, [2]], [2, [1]], [3, []]]));
+    expect(boundaryDistricts(graph)).toEqual(new Set([1, 2]));
+  });
+
+  it('builds a symmetric graph of the bundled districts', () => {
+    const bundled = districtAdjacency();
+    expect(districtAdjacency()).toBe(bundled);
+    expect(bundled.size).toBe(305);
+    bundled.forEach((neighbors, ubigeo) => neighbors.forEach(n => {
+      expect(getNeighbors(n.ubigeo).find(m => m.ubigeo === ubigeo)?.sharedLength).toBe(n.sharedLength);
+    }));
+    expect(boundaryDistricts(bundled).size).toBeGreaterThan(50);
+  });
+
+  it('bundles the graph that scripts/buildAdjacency.ts builds from the topology', () => {
+    expect(buildBundledAdjacency()).toEqual(districtAdjacencyJson);
+  });
+});
@@ -0,0 +1,123 @@
+// District adjacency graph: which districts share a border, how long it is, and whether it
+// is part of the mita boundary. Borders are matched within a tolerance rather than by shared
+// vertices, since neighboring outlines in uploaded data do not always share their vertices.
+// The bundled graph is generated ahead of time (districtAdjacency.json, by scripts/buildAdjacency.ts);
+// uploads are built here.
+import { AdjacencyEntry, AdjacencyGraph, DistrictDataSource, DistrictNeighbor, DistrictPolygon } from './types';
+import { BORDER_TOLERANCE, MIN_SHARED_BORDER, SNAPPED_BORDER_TOLERANCE } from './constants';
+import { haversineDistance } from './geometryUtils';
+import { validateDistrictAdjacency, validateDistrictTopology } from './validationUtils';
+
+type Position = [number, number];
+
+interface Segment {
+  ubigeo: number;
+  a: Position;
+  b: Position;
+}
+
+// Grid cell size (degrees) of the segment index
+const CELL = 0.01;
+
+const cellKey = (i: number, j: number): string => `${i},${j}`;
+
+// Planar distance (degrees) from a point to a segment
+const segmentDistance = (p: Position, { a, b }: Segment): number => {
+  const [dx, dy] = [b[0] - a[0], b[1] - a[1]];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared));
+  return Math.hypot(p[0] - a[0] - t * dx, p[1] - a[1] - t * dy);
+};
+
+// Adjacency of the districts. Each district's outline is sampled every `tolerance` degrees and
+// a sample counts toward the border with every other district whose outline is within
+// `tolerance` of it; the shared length averages both sides. Districts that only touch at a
+// corner share less than MIN_SHARED_BORDER and are not neighbors.
+export const buildAdjacencyGraph = (
+  districts: DistrictPolygon[],
+  tolerance = BORDER_TOLERANCE
+): AdjacencyGraph => {
+  const segments: Segment[] = districts.flatMap(d => (d.parts ?? [[d.polygon]]).flat().flatMap(ring =>
+    ring.slice(1).map((b, i) => ({ ubigeo: d.ubigeo, a: ring[i], b }))));
+
+  // Every segment goes in the cells its tolerance-padded bounding box covers
+  const grid = new Map<string, Segment[]>();
+  segments.forEach(segment => {
+    const [i0, i1] = [Math.min(segment.a[0], segment.b[0]), Math.max(segment.a[0], segment.b[0])]
+      .map((x, k) => Math.floor((x + (k === 0 ? -tolerance : tolerance)) / CELL));
+    const [j0, j1] = [Math.min(segment.a[1], segment.b[1]), Math.max(segment.a[1], segment.b[1])]
+      .map((x, k) => Math.floor((x + (k === 0 ? -tolerance : tolerance)) / CELL));
+    for (let i = i0; i <= i1; i++) {
+      for (let j = j0; j <= j1; j++) {
+        const key = cellKey(i, j);
+        if (!grid.has(key)) grid.set(key, []);
+        grid.get(key)!.push(segment);
+      }
+    }
+  });
+
+  // Length (km) of each district's outline lying along each other district's
+  const along = new Map(districts.map(d => [d.ubigeo, new Map<number, number>()]));
+  segments.forEach(segment => {
+    const { ubigeo, a, b } = segment;
+    const steps = Math.max(1, Math.ceil(Math.hypot(b[0] - a[0], b[1] - a[1]) / tolerance));
+    const stepLength = haversineDistance(a, b) / steps;
+    for (let s = 0; s < steps; s++) {
+      const t = (s + 0.5) / steps;
+      const p: Position = [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+      const near = new Set((grid.get(cellKey(Math.floor(p[0] / CELL), Math.floor(p[1] / CELL))) ?? [])
+        .filter(other => other.ubigeo !== ubigeo && segmentDistance(p, other) <= tolerance)
+        .map(other => other.ubigeo));
+      const lengths = along.get(ubigeo)!;
+      near.forEach(other => lengths.set(other, (lengths.get(other) ?? 0) + stepLength));
+    }
+  });
+
+  const mita = new Map(districts.map(d => [d.ubigeo, d.mita]));
+  return new Map(Array.from(along, ([ubigeo, lengths]) => [
+    ubigeo,
+    Array.from(lengths, ([neighbor, length]): DistrictNeighbor => ({
+      ubigeo: neighbor,
+      sharedLength: (length + (along.get(neighbor)!.get(ubigeo) ?? 0)) / 2,
+      onMitaBoundary: mita.get(ubigeo) !== mita.get(neighbor),
+    }))
+      .filter(n => n.sharedLength >= MIN_SHARED_BORDER)
+      .sort((x, y) => y.sharedLength - x.sharedLength),
+  ]));
+};
+
+// districtAdjacency.json as built from districtTopology.json, with shared lengths rounded to
+// the metre: what scripts/buildAdjacency.ts writes
+export const buildBundledAdjacency = (): AdjacencyEntry[] => {
+  const graph = buildAdjacencyGraph(validateDistrictTopology().data, SNAPPED_BORDER_TOLERANCE);
+  return Array.from(graph, ([ubigeo, neighbors]) => ({
+    ubigeo,
+    neighbors: neighbors.map(n => ({ ...n, sharedLength: Math.round(n.sharedLength * 1000) / 1000 })),
+  }));
+};
+
+// Graph of the bundled districts (read from districtAdjacency.json) or of an uploaded source,
+// built once per upload
+const graphCache = new WeakMap<object, AdjacencyGraph>();
+const BUNDLED = {};
+
+export const districtAdjacency = (source?: DistrictDataSource | null): AdjacencyGraph => {
+  const key = source ?? BUNDLED;
+  if (!graphCache.has(key)) {
+    graphCache.set(key, source ? buildAdjacencyGraph(source.polygons) : validateDistrictAdjacency().data);
+  }
+  return graphCache.get(key)!;
+};
+
+export const getNeighbors = (ubigeo: number, graph: AdjacencyGraph = districtAdjacency()): DistrictNeighbor[] =>
+  graph.get(ubigeo) ?? [];
+
+// Districts with a neighbor across the mita boundary
+export const boundaryDistricts = (graph: AdjacencyGraph): Set<number> =>
+  new Set(Array.from(graph).filter(([, neighbors]) => neighbors.some(n => n.onMitaBoundary)).map(([ubigeo]) => ubigeo));
+
+// Neighbor ubigeos alone, as Moran's I takes them
+export const neighborLists = (graph: AdjacencyGraph): Map<number, number[]> =>
+  new Map(Array.from(graph, ([ubigeo, neighbors]) => [ubigeo, neighbors.map(n => n.ubigeo)]));
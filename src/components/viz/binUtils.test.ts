@@ -0,0 +1,54 @@
+/**
+ * Tests for rdplot-style binning
+ */
+import { binScatterData } from './binUtils';
+import { RDPoint } from './types';
+
+const points: RDPoint[] = [-9, -7, -6, -2, -1, 1, 2, 3, 4, 10].map((x, i) => ({
+  scatterX: x,
+  scatterY: i,
+  isInside: x > 0,
+}));
+
+describe('binUtils', () => {
+  it('bins each side separately with equal-width bins', () => {
+    const bins = binScatterData(points, 2, 'even');
+    expect(bins.every(b => b.members.every(i => points[i].isInside === b.isInside))).toBe(true);
+
+    const inside = bins.filter(b => b.isInside);
+    expect(inside.map(b => [b.x0, b.x1])).toEqual([[0, 5], [5, 10]]);
+    expect(inside.map(b => b.count)).toEqual([4, 1]);
+
+    const outside = bins.filter(b => !b.isInside);
+    expect(outside.map(b => [b.x0, b.x1])).toEqual([[-4.5, 0], [-9, -4.5]]);
+  });
+
+  it('puts every point in exactly one bin', () => {
+    ['even', 'quantile'].forEach(method => {
+      const bins = binScatterData(points, 3, method as 'even' | 'quantile');
+      const members = bins.flatMap(b => b.members).sort((a, b) => a - b);
+      expect(members).toEqual(points.map((_, i) => i));
+    });
+  });
+
+  it('gives quantile bins roughly equal counts', () => {
+    const many: RDPoint[] = Array.from({ length: 100 }, (_, i) => ({
+      scatterX: 1 + (i % 50) ** 2 / 50,
+      scatterY: 0,
+      isInside: i < 50,
+    })).map(p => (p.isInside ? p : { ...p, scatterX: -p.scatterX }));
+    const bins = binScatterData(many, 5, 'quantile');
+    bins.forEach(b => expect(b.count).toBe(10));
+  });
+
+  it('computes bin means with a 95% error bar', () => {
+    const [bin] = binScatterData(
+      [2, 4, 6, 8].map(y => ({ scatterX: 1, scatterY: y, isInside: true })),
+      1
+    );
+    expect(bin.mean).toBe(5);
+    expect(bin.x).toBe(1);
+    // sd = 2.582, se = 1.291
+    expect(bin.upper - bin.mean).toBeCloseTo(1.959964 * 1.29099, 3);
+  });
+});
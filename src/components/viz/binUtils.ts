@@ -0,0 +1,63 @@
+// Binned scatter data: bin means with 95% error bars on each side of the cutoff
+import { RDPoint, BinMethod, ScatterBin } from './types';
+import { Z_95 } from './rdUtils';
+
+// Bin edges on [0, max |x|] for one side: equal-width, or cut at quantiles of |x|
+const binEdges = (distances: number[], count: number, method: BinMethod): number[] => {
+  const max = Math.max(...distances);
+  if (method === 'even') {
+    return Array.from({ length: count + 1 }, (_, i) => (max * i) / count);
+  }
+  const sorted = [...distances].sort((a, b) => a - b);
+  return Array.from({ length: count + 1 }, (_, i) => {
+    if (i === 0) return 0;
+    if (i === count) return max;
+    return sorted[Math.floor((sorted.length * i) / count)];
+  });
+};
+
+// Bin each side separately so no bin mixes mita and non-mita districts.
+// Empty bins (and duplicate quantile edges) are dropped.
+export const binScatterData = (
+  points: RDPoint[],
+  binsPerSide: number,
+  method: BinMethod = 'even'
+): ScatterBin[] => {
+  return [false, true].flatMap(isInside => {
+    const side = points
+      .map((p, index) => ({ index, distance: Math.abs(p.scatterX), y: p.scatterY }))
+      .filter(({ index }) => points[index].isInside === isInside);
+    if (side.length === 0) return [];
+
+    const edges = binEdges(side.map(s => s.distance), binsPerSide, method);
+    const bins: ScatterBin[] = [];
+
+    for (let i = 0; i < binsPerSide; i++) {
+      const [lo, hi] = [edges[i], edges[i + 1]];
+      // The last bin is closed so the farthest district is included
+      const members = side.filter(s =>
+        s.distance >= lo && (i === binsPerSide - 1 ? s.distance <= hi : s.distance < hi));
+      if (members.length === 0) continue;
+
+      const n = members.length;
+      const mean = members.reduce((sum, m) => sum + m.y, 0) / n;
+      const variance = n > 1 ? members.reduce((sum, m) => sum + (m.y - mean) ** 2, 0) / (n - 1) : 0;
+      const margin = Z_95 * Math.sqrt(variance / n);
+      const meanX = members.reduce((sum, m) => sum + points[m.index].scatterX, 0) / n;
+
+      bins.push({
+        isInside,
+        x0: isInside ? lo : -hi,
+        x1: isInside ? hi : 0 - lo, // 0 - lo avoids -0 at the cutoff
+        x: meanX,
+        mean,
+        lower: mean - margin,
+        upper: mean + margin,
+        count: n,
+        members: members.map(m => m.index),
+      });
+    }
+
+    return bins;
+  });
+};
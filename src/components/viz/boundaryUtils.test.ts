@@ -0,0 +1,47 @@
+/**
+ * Tests for mita boundary segmentation
+ */
+import { boundaryLength, nearestBoundaryPosition, nearestSegment, splitBoundary, sampleBoundary } from './boundaryUtils';
+
+// An L-shaped boundary near the equator: 0.1° east, then 0.1° north
+const L_SHAPE: [number, number][][] = [[[0, 0], [0, 0.1], [0.1, 0.1]]];
+
+describe('boundaryUtils', () => {
+  it('measures boundary length in km', () => {
+    expect(boundaryLength(L_SHAPE)).toBeCloseTo(11.132 + 11.057, 1);
+  });
+
+  it('finds the arc position of the nearest boundary point', () => {
+    const { arc, distance } = nearestBoundaryPosition([-0.01, 0.05], L_SHAPE);
+    expect(arc).toBeCloseTo(5.566, 1);
+    expect(distance).toBeCloseTo(1.106, 1);
+  });
+
+  it('assigns points to equal-length segments', () => {
+    expect(nearestSegment([-0.01, 0.01], 2, L_SHAPE)).toBe(0);
+    expect(nearestSegment([0.09, 0.11], 2, L_SHAPE)).toBe(1);
+  });
+
+  it('splits the boundary into contiguous equal-length pieces', () => {
+    const segments = splitBoundary(4, L_SHAPE);
+    expect(segments).toHaveLength(4);
+    const lengths = segments.map(s => boundaryLength(s.paths));
+    lengths.forEach(l => expect(l).toBeCloseTo(boundaryLength(L_SHAPE) / 4, 6));
+  });
+
+  it('splits the bundled mita boundary without losing length', () => {
+    const segments = splitBoundary(10);
+    const total = segments.reduce((s, seg) => s + boundaryLength(seg.paths), 0);
+    expect(total).toBeCloseTo(boundaryLength(), 6);
+  });
+
+  it('samples points at an even spacing along the boundary', () => {
+    const samples = sampleBoundary(5, L_SHAPE);
+    // 22.2 km of boundary: the start plus a point every 5 km
+    expect(samples).toHaveLength(5);
+    expect(samples[1][0]).toBeCloseTo(0, 10);
+    expect(samples[1][1]).toBeCloseTo(5 / 111.32, 4);
+    expect(samples[3][1]).toBeCloseTo(0.1, 10);
+    expect(samples[3][0]).toBeCloseTo((15 - 11.132) / 110.57, 3);
+  });
+});
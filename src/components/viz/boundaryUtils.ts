@@ -0,0 +1,153 @@
+// Mita boundary geometry: arc length, equal-length segments and nearest-segment lookup
+import { BoundarySegment } from './types';
+import { validateMitaBoundary } from './validationUtils';
+
+// Boundary polylines as [lat, lon] vertices (same convention as district polygons)
+export const BOUNDARY_LINES = validateMitaBoundary().data;
+
+const KM_PER_DEGREE_LAT = 110.57;
+const KM_PER_DEGREE_LON_EQUATOR = 111.32;
+
+// Edge length in km, projected at the edge's own mid-latitude so lengths add up
+// the same way however the boundary is cut
+const edgeLength = (a: [number, number], b: [number, number]): number => {
+  const midLat = (a[0] + b[0]) / 2;
+  return Math.hypot(
+    (b[0] - a[0]) * KM_PER_DEGREE_LAT,
+    (b[1] - a[1]) * KM_PER_DEGREE_LON_EQUATOR * Math.cos((midLat * Math.PI) / 180)
+  );
+};
+
+interface BoundaryEdge {
+  start: [number, number]; // [lat, lon]
+  end: [number, number];
+  startArc: number; // Arc length (km) along the whole boundary at the edge start
+  length: number;
+}
+
+// Edges with their arc positions, measured once per set of lines
+const edgeCache = new WeakMap<[number, number][][], { edges: BoundaryEdge[]; total: number }>();
+
+const boundaryEdges = (lines: [number, number][][]): { edges: BoundaryEdge[]; total: number } => {
+  if (!edgeCache.has(lines)) {
+    const edges: BoundaryEdge[] = [];
+    let arc = 0;
+    lines.forEach(line => {
+      for (let i = 1; i < line.length; i++) {
+        const length = edgeLength(line[i - 1], line[i]);
+        edges.push({ start: line[i - 1], end: line[i], startArc: arc, length });
+        arc += length;
+      }
+    });
+    edgeCache.set(lines, { edges, total: arc });
+  }
+  return edgeCache.get(lines)!;
+};
+
+// Total boundary length in km (polylines are measured end to end, gaps excluded)
+export const boundaryLength = (lines: [number, number][][] = BOUNDARY_LINES): number =>
+  boundaryEdges(lines).total;
+
+// Arc-length position (km) of the boundary point nearest to [lat, lon], and the distance to it
+export const nearestBoundaryPosition = (
+  point: [number, number],
+  lines: [number, number][][] = BOUNDARY_LINES
+): { arc: number; distance: number } => {
+  // Local equirectangular projection to km around the query point, so distances near it
+  // are accurate
+  const kx = KM_PER_DEGREE_LON_EQUATOR * Math.cos((point[0] * Math.PI) / 180);
+  const ky = KM_PER_DEGREE_LAT;
+  let best = { arc: 0, distance: Infinity };
+
+  for (const { start, end, startArc, length } of boundaryEdges(lines).edges) {
+    const sx = (start[1] - point[1]) * kx;
+    const sy = (start[0] - point[0]) * ky;
+    const dx = (end[1] - start[1]) * kx;
+    const dy = (end[0] - start[0]) * ky;
+    const projectedLength2 = dx * dx + dy * dy;
+    const t = projectedLength2 > 0 ? Math.max(0, Math.min(1, -(sx * dx + sy * dy) / projectedLength2)) : 0;
+    const distance = Math.hypot(sx + t * dx, sy + t * dy);
+    if (distance < best.distance) best = { arc: startArc + t * length, distance };
+  }
+
+  return best;
+};
+
+// Index (0..count-1) of the equal-length boundary segment nearest to [lat, lon]
+export const nearestSegment = (
+  point: [number, number],
+  count: number,
+  lines: [number, number][][] = BOUNDARY_LINES
+): number => {
+  const { arc } = nearestBoundaryPosition(point, lines);
+  return Math.min(Math.floor((arc / boundaryLength(lines)) * count), count - 1);
+};
+
+// Split the boundary into `count` segments of equal arc length, as [lat, lon] paths.
+// A segment that crosses the gap between polylines has one path per polyline.
+export const splitBoundary = (
+  count: number,
+  lines: [number, number][][] = BOUNDARY_LINES
+): BoundarySegment[] => {
+  const total = boundaryLength(lines);
+  const segmentLength = total / count;
+  const segments: BoundarySegment[] = Array.from({ length: count }, (_, index) => ({ index, paths: [] }));
+
+  let arc = 0;
+  lines.forEach(line => {
+    let current: [number, number][] = [line[0]];
+    let currentIndex = Math.min(Math.floor(arc / segmentLength), count - 1);
+
+    for (let i = 1; i < line.length; i++) {
+      const length = edgeLength(line[i - 1], line[i]);
+      const endArc = arc + length;
+
+      // Cut the edge wherever it crosses a segment break
+      while (currentIndex < count - 1 && endArc > (currentIndex + 1) * segmentLength) {
+        const t = ((currentIndex + 1) * segmentLength - arc) / length;
+        const cut: [number, number] = [
+          line[i - 1][0] + t * (line[i][0] - line[i - 1][0]),
+          line[i - 1][1] + t * (line[i][1] - line[i - 1][1]),
+        ];
+        current.push(cut);
+        segments[currentIndex].paths.push(current);
+        current = [cut];
+        currentIndex++;
+      }
+
+      current.push(line[i]);
+      arc = endArc;
+    }
+
+    segments[currentIndex].paths.push(current);
+  });
+
+  return segments;
+};
+
+// Points every `spacing` km along the boundary, as [lat, lon] (each polyline starts afresh)
+export const sampleBoundary = (
+  spacing: number,
+  lines: [number, number][][] = BOUNDARY_LINES
+): [number, number][] => {
+  const samples: [number, number][] = [];
+  lines.forEach(line => {
+    if (line.length > 0) samples.push(line[0]);
+    let untilNext = spacing;
+    for (let i = 1; i < line.length; i++) {
+      const length = edgeLength(line[i - 1], line[i]);
+      let travelled = 0;
+      while (length - travelled >= untilNext) {
+        travelled += untilNext;
+        const t = travelled / length;
+        samples.push([
+          line[i - 1][0] + t * (line[i][0] - line[i - 1][0]),
+          line[i - 1][1] + t * (line[i][1] - line[i - 1][1]),
+        ]);
+        untilNext = spacing;
+      }
+      untilNext -= length - travelled;
+    }
+  });
+  return samples;
+};
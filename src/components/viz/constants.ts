@@ -1,18 +1,135 @@
 // Constants for visualization
+import {
+  CovariateType,
+  BalanceVariable,
+  TableSpecification,
+  GeoRDOptions,
+  GeoExtent,
+  ZoomLevel,
+} from './types';
 
-// Dell (2010) regression discontinuity estimates
-export const PAPER_COEFFICIENTS = {
-  consumption: -0.25,
-  stunting: 0.06,
-  roads: -36,
+// Dell's baseline specification (Table II): cubic in latitude and longitude with
+// boundary-segment fixed effects; standard errors clustered by province here
+export const REPLICATION_SPECIFICATION: GeoRDOptions = {
+  order: 3,
+  segmentEffects: true,
+  variance: 'cluster',
 };
 
-export const OUTCOME_LABELS = {
-  consumption: 'Log household consumption (2001)',
-  stunting: 'Child stunting rate (2005)',
-  roads: 'Road density (meters/km², 2006)',
+// A replicated coefficient matches if it is within this share of the published magnitude
+export const REPLICATION_TOLERANCE = 0.25;
+
+// Peru's extent in degrees, with a small margin; coordinates outside it are flagged
+export const PERU_EXTENT: GeoExtent = {
+  lat: [-18.5, 0],
+  lon: [-81.5, -68.5],
+};
+
+// Grid the district topology is quantized to (per axis) by scripts/buildTopology.ts: about 10 m
+// over the district extent
+export const TOPOLOGY_QUANTIZATION = 1e5;
+
+// Outlines closer than this (degrees, ~200 m) are snapped together before arcs are cut, so
+// neighbors digitized separately share their border
+export const TOPOLOGY_SNAP_TOLERANCE = 0.002;
+
+// Visvalingam area thresholds (square degrees) for the outlines drawn at each zoom level,
+// about a tenth of a pixel at that zoom.
+// Shared arcs simplify once, so neighbors stay flush; the analysis uses full resolution.
+export const SIMPLIFICATION_AREA: Record<ZoomLevel, number> = {
+  peru: 2e-4,
+  mita: 1e-5,
+};
+
+// Mean Earth radius (km) for geodesic distances
+export const EARTH_RADIUS_KM = 6371.0088;
+
+// Outlines within this distance (degrees, ~200 m) of each other count as a shared border:
+// neighboring outlines in uploaded data can be that far apart where they were simplified apart
+export const BORDER_TOLERANCE = 0.002;
+
+// The bundled outlines are snapped together (TOPOLOGY_SNAP_TOLERANCE), so their shared borders
+// coincide up to quantization; this tighter tolerance (degrees, ~50 m) keeps districts that only
+// come close at a corner apart
+export const SNAPPED_BORDER_TOLERANCE = 0.0005;
+
+// Shortest shared border (km) that makes two districts neighbors; corner contacts fall below it
+export const MIN_SHARED_BORDER = 0.5;
+
+// Default Conley spatial-HAC cutoff (km): scores of districts closer than this are correlated
+export const CONLEY_CUTOFF = 50;
+
+// Pre-treatment geographic controls, in the order they enter the regression
+export const COVARIATES: CovariateType[] = ['elevation', 'slope'];
+
+export const COVARIATE_LABELS: Record<CovariateType, string> = {
+  elevation: 'Elevation (m)',
+  slope: 'Slope (degrees)',
 };
 
+// Pre-treatment characteristics that should not jump at the boundary
+export const BALANCE_VARIABLES: BalanceVariable[] = ['elevation', 'slope', 'population1572'];
+
+export const BALANCE_LABELS: Record<BalanceVariable, string> = {
+  ...COVARIATE_LABELS,
+  population1572: 'Tributary population (1572)',
+};
+
+// Peru's departments by ubigeo code (INEI)
+export const DEPARTMENT_NAMES: Record<number, string> = {
+  1: 'Amazonas',
+  2: 'Áncash',
+  3: 'Apurímac',
+  4: 'Arequipa',
+  5: 'Ayacucho',
+  6: 'Cajamarca',
+  7: 'Callao',
+  8: 'Cusco',
+  9: 'Huancavelica',
+  10: 'Huánuco',
+  11: 'Ica',
+  12: 'Junín',
+  13: 'La Libertad',
+  14: 'Lambayeque',
+  15: 'Lima',
+  16: 'Loreto',
+  17: 'Madre de Dios',
+  18: 'Moquegua',
+  19: 'Pasco',
+  20: 'Piura',
+  21: 'Puno',
+  22: 'San Martín',
+  23: 'Tacna',
+  24: 'Tumbes',
+  25: 'Ucayali',
+};
+
+// Number of equal-length mita boundary segments for segment fixed effects
+export const BOUNDARY_SEGMENT_COUNT = 10;
+
+// Bins on each side of the cutoff in the binned scatter
+export const BINS_PER_SIDE = 8;
+
+// Placebo cutoffs (km) every 5 km across the scatter range, including the true cutoff at 0
+export const PLACEBO_CUTOFFS = Array.from({ length: 17 }, (_, i) => -40 + 5 * i);
+
+// Bandwidths (km) for the sensitivity chart, from 10 km to well past the 50 km scatter window
+export const SENSITIVITY_BANDWIDTHS = Array.from({ length: 19 }, (_, i) => 10 + 5 * i);
+
+// Columns of the estimates table (province-clustered standard errors throughout)
+export const TABLE_SPECIFICATIONS: TableSpecification[] = [
+  { id: 'naive', label: 'Naive OLS', options: { order: 1, variance: 'cluster' }, global: true },
+  { id: 'linear', label: 'Linear RD', options: { order: 1, variance: 'cluster' } },
+  { id: 'quadratic', label: 'Quadratic RD', options: { order: 2, variance: 'cluster' } },
+  { id: 'linear-controls', label: 'Linear RD + controls', options: { order: 1, variance: 'cluster', controls: true } },
+  { id: 'quadratic-controls', label: 'Quadratic RD + controls', options: { order: 2, variance: 'cluster', controls: true } },
+  { id: 'linear-segments', label: 'Linear RD + segment FE', options: { order: 1, variance: 'cluster', segmentEffects: true } },
+];
+
+// Resampling inference: draws per run, and the default seed so runs are reproducible
+export const INFERENCE_DRAWS = 1000;
+export const INFERENCE_SEED = 1573;
+
 export const DEFAULT_DIMENSIONS = {
   width: 700,
   height: 500,
@@ -47,3 +164,10 @@ export const OPACITY = {
   dot: 0.8,
   mapFade: 0.5,
 };
+
+// Scatter dot radii; weighted dots scale by area around the median weight
+export const DOT_RADIUS = {
+  base: 5,
+  min: 2,
+  max: 12,
+};
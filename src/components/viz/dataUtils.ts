@@ -1,150 +1,190 @@
 // Data processing utilities
 import * as d3 from 'd3';
-import districtPolygons from '../../data/districtPolygons.json';
-import mitaData from '../../data/mitaData.json';
-import { DistrictPolygon, DistrictData, MergedDistrictData, ScatterDataPoint, OutcomeType } from './types';
+import {
+  DistrictPolygon,
+  DistrictData,
+  MergedDistrictData,
+  ScatterDataPoint,
+  DistrictField,
+  DistanceOrigin,
+  DistrictDataSource,
+  OutcomeType,
+  OutcomeValues,
+  DistrictOutlines,
+  ZoomLevel,
+} from './types';
+import { BOUNDARY_SEGMENT_COUNT, SIMPLIFICATION_AREA } from './constants';
+import { OUTCOMES, OUTCOME_IDS, isOutcome, hasOutcomeValue, outcomeValues } from './outcomeUtils';
+import { nearestSegment } from './boundaryUtils';
+import { parseUbigeo } from './geographyUtils';
+import { distanceToLines, polygonDistanceToLines, pointInTerritory } from './geometryUtils';
+import { validateMitaData, validateDistrictTopology } from './validationUtils';
 
-// Merge polygon and outcome data
-export const mergeData = (): MergedDistrictData[] => {
+// Running variable for one district of the replication sample: geodesic distance from the
+// origin to the mita boundary, and the side given by the origin's point-in-polygon test
+// against the mita territory (the edge origin takes its side from the centroid).
+// The origin need not lie in its own district: a centroid can fall in a neighbor.
+const measureRunningVariable = (
+  origin: DistanceOrigin,
+  outcome: DistrictData,
+  polygon: [number, number][],
+  centroid: [number, number],
+  coordinates: [number, number] | null,
+  territory: [number, number][][]
+): { distance: number; isInside: boolean } | null => {
+  if (origin === 'data') {
+    return outcome.distance === null ? null : { distance: Math.abs(outcome.distance), isInside: outcome.isInside };
+  }
+  if (origin === 'edge') {
+    return { distance: polygonDistanceToLines(polygon), isInside: pointInTerritory(centroid, territory) };
+  }
+  const point = origin === 'centroid' ? centroid : coordinates;
+  if (!point) return null;
+  return { distance: distanceToLines(point), isInside: pointInTerritory(point, territory) };
+};
+
+// Merge polygon and outcome data, deriving the running variable from the geometry.
+// Records that fail validation are left out (see buildDataQualityReport for what and why).
+// An uploaded source replaces the bundled files; it has no mita boundary to measure
+// from, so its running variable is always its own distance column.
+const buildMergedData = (origin: DistanceOrigin, source?: DistrictDataSource): MergedDistrictData[] => {
   const outcomeMap = new Map<number, DistrictData>();
-  (mitaData as DistrictData[]).forEach(d => outcomeMap.set(d.ubigeo, d));
+  (source ? source.outcomes : validateMitaData().data).forEach(d => outcomeMap.set(d.ubigeo, d));
+  const polygons = source ? source.polygons : validateDistrictTopology().data;
+  // Territory treated by the mita. Sample districts keep the replication data's coding: the
+  // polygon file puts four Apurímac districts outside, but Dell's estimates treat them
+  // as inside (reported as treatmentMismatch by buildDataQualityReport)
+  const isTreated = (poly: DistrictPolygon) => outcomeMap.get(poly.ubigeo)?.isInside ?? poly.mita === 1;
+  const territory = polygons.filter(isTreated).map(poly => poly.polygon);
 
-  return (districtPolygons as DistrictPolygon[]).map(poly => {
+  return polygons.map(poly => {
     const outcome = outcomeMap.get(poly.ubigeo);
+    const { department, province } = parseUbigeo(poly.ubigeo);
     // Calculate centroid from polygon
     const centroid = d3.polygonCentroid(poly.polygon.map(p => [p[1], p[0]] as [number, number]));
+    // The replication data stores coordinates as positive degrees; Peru is south and west
+    const lat = outcome?.lat != null ? -Math.abs(outcome.lat) : null;
+    const lon = outcome?.lon != null ? -Math.abs(outcome.lon) : null;
+    // Only districts in the replication sample get a running variable
+    const running = outcome
+      ? measureRunningVariable(
+        source ? 'data' : origin,
+        outcome,
+        poly.polygon,
+        [centroid[1], centroid[0]],
+        lat !== null && lon !== null ? [lat, lon] : null,
+        territory
+      )
+      : null;
     return {
       ubigeo: poly.ubigeo,
       mita: poly.mita,
       polygon: poly.polygon,
+      ...(poly.parts ? { parts: poly.parts } : {}),
       centroidLon: centroid[0],
       centroidLat: centroid[1],
-      distance: outcome?.distance ?? null,
-      isInside: outcome?.isInside ?? poly.mita === 1,
-      consumption: outcome?.consumption ?? null,
-      stunting: outcome?.stunting ?? null,
-      roads: outcome?.roads ?? null,
+      distance: running?.distance ?? null,
+      isInside: running?.isInside ?? poly.mita === 1,
+      scatterX: running ? (running.isInside ? running.distance : -running.distance) : null,
+      ...Object.fromEntries(OUTCOME_IDS.map(id => [id, outcome?.[id] ?? null])) as OutcomeValues,
+      elevation: outcome?.elevation ?? null,
+      slope: outcome?.slope ?? null,
+      population1572: outcome?.population1572 ?? null,
+      households: outcome?.households ?? null,
+      children: outcome?.children ?? null,
+      lat,
+      lon,
+      boundarySegment: nearestSegment([centroid[1], centroid[0]], BOUNDARY_SEGMENT_COUNT),
+      department,
+      province,
     };
   });
 };
 
-// Filter data for scatter plot
+// Merged data is measured once per origin for the bundled files and once per uploaded
+// source; callers share the result and must not mutate it
+const mergedCache = new Map<DistanceOrigin, MergedDistrictData[]>();
+const sourceCache = new WeakMap<DistrictDataSource, MergedDistrictData[]>();
+
+export const mergeData = (
+  origin: DistanceOrigin = 'coordinates',
+  source?: DistrictDataSource
+): MergedDistrictData[] => {
+  if (source) {
+    if (!sourceCache.has(source)) sourceCache.set(source, buildMergedData(origin, source));
+    return sourceCache.get(source)!;
+  }
+  if (!mergedCache.has(origin)) mergedCache.set(origin, buildMergedData(origin));
+  return mergedCache.get(origin)!;
+};
+
+// Bundled district outlines simplified for a zoom level, decoded once per level. Neighbors
+// share their simplified borders, so simplifying opens no gaps between them.
+const outlineCache = new Map<ZoomLevel, DistrictOutlines>();
+
+export const districtOutlines = (level: ZoomLevel): DistrictOutlines => {
+  if (!outlineCache.has(level)) {
+    const { data } = validateDistrictTopology(undefined, SIMPLIFICATION_AREA[level]);
+    outlineCache.set(level, new Map(data.map(d => [d.ubigeo, d.parts ?? [[d.polygon]]])));
+  }
+  return outlineCache.get(level)!;
+};
+
+// Filter data for scatter plot. Works for outcomes and pre-treatment balance variables;
+// outcomes whose source codes missing values as 0 keep only positive values.
+// Districts closer to the boundary than donutRadius (km) are kept but flagged isDonut.
 export const filterScatterData = (
   mergedData: MergedDistrictData[],
-  currentOutcome: OutcomeType
+  field: DistrictField,
+  donutRadius = 0
 ): ScatterDataPoint[] => {
+  const outcome = isOutcome(field) ? OUTCOMES[field] : null;
+  const weightField = outcome?.weight;
   return mergedData.filter(d => {
-    const value = d[currentOutcome];
-    return d.distance !== null && value !== null && value > 0;
+    const value = d[field];
+    if (d.scatterX === null) return false;
+    return isOutcome(field) ? hasOutcomeValue(value, field) : value !== null && Number.isFinite(value);
   }).map(d => {
-    const rawValue = d[currentOutcome] as number;
-    const value = currentOutcome === 'stunting' ? rawValue * 100 : rawValue;
-    const flippedDistance = d.isInside ? Math.abs(d.distance as number) : -Math.abs(d.distance as number);
+    const rawValue = d[field] as number;
+    const scatterX = d.scatterX as number;
     return {
       ...d,
-      scatterX: flippedDistance,
-      scatterY: value,
-      stuntingY: d.stunting !== null ? d.stunting * 100 : null,
-      consumptionY: d.consumption,
-      roadsY: d.roads,
+      scatterX,
+      scatterY: outcome ? outcome.transform(rawValue) : rawValue,
+      outcomeY: outcomeValues(d),
+      isDonut: Math.abs(scatterX) < donutRadius,
+      weight: weightField ? d[weightField] : null,
     };
   });
 };
 
 // Get all scatter data with any outcome (for transitions)
-export const getAllScatterData = (mergedData: MergedDistrictData[]): Omit<ScatterDataPoint, 'scatterY'>[] => {
+export const getAllScatterData = (
+  mergedData: MergedDistrictData[],
+  donutRadius = 0
+): Omit<ScatterDataPoint, 'scatterY'>[] => {
   return mergedData.filter(d => {
-    return d.distance !== null && (
-      (d.stunting !== null && d.stunting > 0) ||
-      (d.consumption !== null && d.consumption > 0) ||
-      (d.roads !== null && d.roads > 0)
-    );
+    return d.scatterX !== null && OUTCOME_IDS.some(id => hasOutcomeValue(d[id], id));
   }).map(d => {
-    const flippedDistance = d.isInside ? Math.abs(d.distance as number) : -Math.abs(d.distance as number);
+    const scatterX = d.scatterX as number;
     return {
       ...d,
-      scatterX: flippedDistance,
+      scatterX,
       scatterY: 0, // Placeholder, use specific outcome Y values
-      stuntingY: d.stunting !== null && d.stunting > 0 ? d.stunting * 100 : null,
-      consumptionY: d.consumption !== null && d.consumption > 0 ? d.consumption : null,
-      roadsY: d.roads !== null && d.roads > 0 ? d.roads : null,
+      outcomeY: outcomeValues(d),
+      isDonut: Math.abs(scatterX) < donutRadius,
+      weight: null, // Depends on the outcome (see filterScatterData)
     };
   });
 };
 
-// Helper to get Y value for a given outcome
-export const getOutcomeY = (
-  d: { stuntingY: number | null; consumptionY: number | null; roadsY: number | null },
-  outcomeKey: string
-): number | null => {
-  if (outcomeKey === 'stunting') return d.stuntingY;
-  if (outcomeKey === 'consumption') return d.consumptionY;
-  if (outcomeKey === 'roads') return d.roadsY;
-  return null;
-};
-
-// Tolerance for vertex matching (in degrees, ~100m at Peru's latitude)
-const VERTEX_TOLERANCE = 0.001;
-
-// Check if two vertices are approximately equal
-const verticesMatch = (v1: [number, number], v2: [number, number]): boolean => {
-  return Math.abs(v1[0] - v2[0]) < VERTEX_TOLERANCE &&
-         Math.abs(v1[1] - v2[1]) < VERTEX_TOLERANCE;
+// Signed distance to the boundary (mita positive) for every district that has one
+export const getSignedDistances = (mergedData: MergedDistrictData[]): number[] => {
+  return mergedData
+    .filter(d => d.scatterX !== null)
+    .map(d => d.scatterX as number);
 };
 
-// Check if two polygons share at least one edge (two consecutive shared vertices)
-const polygonsShareEdge = (poly1: [number, number][], poly2: [number, number][]): boolean => {
-  // For efficiency, first check if bounding boxes overlap
-  const getBBox = (poly: [number, number][]) => {
-    let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
-    for (const [lat, lon] of poly) {
-      minLat = Math.min(minLat, lat);
-      maxLat = Math.max(maxLat, lat);
-      minLon = Math.min(minLon, lon);
-      maxLon = Math.max(maxLon, lon);
-    }
-    return { minLat, maxLat, minLon, maxLon };
-  };
-
-  const bbox1 = getBBox(poly1);
-  const bbox2 = getBBox(poly2);
-
-  // Check if bounding boxes overlap (with tolerance)
-  const tol = VERTEX_TOLERANCE * 2;
-  if (bbox1.maxLat + tol < bbox2.minLat || bbox2.maxLat + tol < bbox1.minLat ||
-      bbox1.maxLon + tol < bbox2.minLon || bbox2.maxLon + tol < bbox1.minLon) {
-    return false;
-  }
-
-  // Check for shared vertices (at least 2 shared vertices = shared edge)
-  let sharedCount = 0;
-  for (const v1 of poly1) {
-    for (const v2 of poly2) {
-      if (verticesMatch(v1, v2)) {
-        sharedCount++;
-        if (sharedCount >= 2) return true;
-      }
-    }
-  }
-  return false;
-};
-
-// Compute set of ubigeos for districts that border districts of opposite mita type
-export const computeBoundaryDistricts = (mergedData: MergedDistrictData[]): Set<number> => {
-  const boundaryUbigeos = new Set<number>();
-
-  const mitaDistricts = mergedData.filter(d => d.mita === 1);
-  const nonMitaDistricts = mergedData.filter(d => d.mita === 0);
-
-  // For each mita district, check if it borders any non-mita district
-  for (const mita of mitaDistricts) {
-    for (const nonMita of nonMitaDistricts) {
-      if (polygonsShareEdge(mita.polygon, nonMita.polygon)) {
-        boundaryUbigeos.add(mita.ubigeo);
-        boundaryUbigeos.add(nonMita.ubigeo);
-      }
-    }
-  }
-
-  return boundaryUbigeos;
-};
+// Helper to get Y value for a given outcome
+export const getOutcomeY = (d: { outcomeY: OutcomeValues }, outcome: OutcomeType): number | null =>
+  d.outcomeY[outcome];
@@ -0,0 +1,36 @@
+/**
+ * Tests for the running-variable density test
+ */
+import { densityHistogram, densityTest } from './densityUtils';
+
+// Deterministic evenly spread draws on [from, to)
+const spread = (count: number, from: number, to: number): number[] =>
+  Array.from({ length: count }, (_, i) => from + ((i + 0.5) * (to - from)) / count);
+
+describe('densityUtils', () => {
+  it('builds a histogram anchored at the cutoff whose densities integrate to one', () => {
+    const xs = [-4.5, -3, -0.2, 0.1, 0.4, 2.5, 3.9];
+    const bins = densityHistogram(xs, 1);
+    expect(bins.every(b => b.x0 >= 0 || b.x1 <= 0)).toBe(true);
+    expect(bins.reduce((s, b) => s + b.count, 0)).toBe(xs.length);
+    expect(bins.reduce((s, b) => s + b.density * (b.x1 - b.x0), 0)).toBeCloseTo(1, 10);
+  });
+
+  it('finds no jump in a uniform density', () => {
+    const result = densityTest(spread(400, -40, 40))!;
+    expect(result.logDifference).toBeCloseTo(0, 1);
+    expect(Math.abs(result.z)).toBeLessThan(1.96);
+  });
+
+  it('detects districts bunching on one side', () => {
+    const xs = [...spread(400, -40, 0), ...spread(800, 0, 40)];
+    const result = densityTest(xs)!;
+    expect(result.logDifference).toBeCloseTo(Math.log(2), 1);
+    expect(result.z).toBeGreaterThan(1.96);
+    expect(result.insideDensity / result.outsideDensity).toBeCloseTo(2, 1);
+  });
+
+  it('returns null without enough data', () => {
+    expect(densityTest([1, -1])).toBeNull();
+  });
+});
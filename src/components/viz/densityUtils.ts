@@ -0,0 +1,120 @@
+// Running-variable density test (McCrary 2008): does the density of districts jump at the cutoff?
+import { DensityBin, DensityFitPoint, DensityTest } from './types';
+import { kernelWeight, Z_95 } from './rdUtils';
+import { weightedLeastSquares, polynomialDesign } from './regressionUtils';
+
+// Points per side in the drawn density smoother
+const FIT_POINTS = 40;
+
+// McCrary's first-step bin width: b = 2 sd(x) n^(-1/2)
+const defaultBinWidth = (xs: number[]): number => {
+  const n = xs.length;
+  const mean = xs.reduce((s, x) => s + x, 0) / n;
+  const sd = Math.sqrt(xs.reduce((s, x) => s + (x - mean) ** 2, 0) / (n - 1));
+  return 2 * sd / Math.sqrt(n);
+};
+
+// Histogram with bins anchored at the cutoff, so no bin straddles it (x >= 0 is inside)
+export const densityHistogram = (xs: number[], binWidth: number): DensityBin[] => {
+  const n = xs.length;
+  return [false, true].flatMap(isInside => {
+    const side = xs.filter(x => (x >= 0) === isInside).map(Math.abs);
+    const binCount = Math.ceil(Math.max(...side, 0) / binWidth) || (side.length > 0 ? 1 : 0);
+    return Array.from({ length: binCount }, (_, j) => {
+      const count = side.filter(d => d >= j * binWidth && (d < (j + 1) * binWidth || j === binCount - 1)).length;
+      const [near, far] = [j * binWidth, (j + 1) * binWidth];
+      return {
+        x0: isInside ? near : -far,
+        x1: isInside ? far : 0 - near,
+        x: (isInside ? 1 : -1) * (j + 0.5) * binWidth,
+        count,
+        density: count / (n * binWidth),
+        isInside,
+      };
+    });
+  });
+};
+
+// McCrary's bandwidth heuristic on each side, averaged:
+// h = 3.348 [ s2 (r - l) / sum f''(X_j)^2 ]^(1/5) from a global quartic fit to the histogram
+const heuristicBandwidth = (bins: DensityBin[]): number | null => {
+  const sideBandwidth = (side: DensityBin[]): number | null => {
+    const range = Math.max(...side.map(b => Math.max(Math.abs(b.x0), Math.abs(b.x1))));
+    const fit = weightedLeastSquares(
+      polynomialDesign(side.map(b => b.x / range), 4),
+      side.map(b => b.density)
+    );
+    if (!fit) return null;
+    const curvature = side.reduce((s, b) => {
+      const u = b.x / range;
+      const second = fit.coefficients.reduce((t, c, j) => (j >= 2 ? t + j * (j - 1) * c * u ** (j - 2) : t), 0);
+      return s + (second / range ** 2) ** 2;
+    }, 0);
+    if (curvature <= 0) return null;
+    return 3.348 * (fit.residualVariance * range / curvature) ** (1 / 5);
+  };
+  const inside = sideBandwidth(bins.filter(b => b.isInside));
+  const outside = sideBandwidth(bins.filter(b => !b.isInside));
+  if (inside === null || outside === null) return inside ?? outside;
+  return (inside + outside) / 2;
+};
+
+// Local linear density at x0 from one side's bins, triangular kernel
+const localLinearDensity = (bins: DensityBin[], x0: number, bandwidth: number): number | null => {
+  const fit = weightedLeastSquares(
+    polynomialDesign(bins.map(b => b.x - x0), 1),
+    bins.map(b => b.density),
+    bins.map(b => kernelWeight('triangular', (b.x - x0) / bandwidth))
+  );
+  return fit ? fit.coefficients[0] : null;
+};
+
+// Density test on signed distances (inside positive). Returns null with too few
+// bins near the cutoff on either side to fit a line.
+export const densityTest = (
+  xs: number[],
+  options: { binWidth?: number; bandwidth?: number } = {}
+): DensityTest | null => {
+  const n = xs.length;
+  if (n < 4) return null;
+
+  const binWidth = options.binWidth ?? defaultBinWidth(xs);
+  const bins = densityHistogram(xs, binWidth);
+  const insideBins = bins.filter(b => b.isInside);
+  const outsideBins = bins.filter(b => !b.isInside);
+
+  // At least three bins per side inside the kernel window
+  const bandwidth = Math.max(options.bandwidth ?? heuristicBandwidth(bins) ?? 10 * binWidth, 3.5 * binWidth);
+
+  const insideDensity = localLinearDensity(insideBins, 0, bandwidth);
+  const outsideDensity = localLinearDensity(outsideBins, 0, bandwidth);
+  if (insideDensity === null || outsideDensity === null || insideDensity <= 0 || outsideDensity <= 0) {
+    return null;
+  }
+
+  const logDifference = Math.log(insideDensity) - Math.log(outsideDensity);
+  const standardError = Math.sqrt((24 / (5 * n * bandwidth)) * (1 / insideDensity + 1 / outsideDensity));
+
+  const smoother = (side: DensityBin[], sign: number): DensityFitPoint[] => {
+    const reach = Math.max(...side.map(b => Math.abs(b.x)));
+    return Array.from({ length: FIT_POINTS }, (_, i) => {
+      const x = (sign * reach * i) / (FIT_POINTS - 1);
+      return { x, density: Math.max(localLinearDensity(side, x, bandwidth) ?? 0, 0) };
+    });
+  };
+
+  return {
+    n,
+    binWidth,
+    bandwidth,
+    bins,
+    insideFit: smoother(insideBins, 1),
+    outsideFit: smoother(outsideBins, -1),
+    insideDensity,
+    outsideDensity,
+    logDifference,
+    standardError,
+    confidenceInterval: [logDifference - Z_95 * standardError, logDifference + Z_95 * standardError],
+    z: logDifference / standardError,
+  };
+};
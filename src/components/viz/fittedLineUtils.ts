@@ -1,142 +1,149 @@
 // Fitted line calculations for OLS and polynomial regression
-import { ScatterDataPoint, FittedLines, OutcomeType } from './types';
-import { PAPER_COEFFICIENTS } from './constants';
-
-interface Point {
-  scatterX: number;
-  scatterY: number;
-}
-
-// Linear OLS: y = a + b*x
-const calcLinearOLS = (points: Point[]): { intercept: number; slope: number } => {
-  const n = points.length;
-  if (n < 2) return { intercept: 0, slope: 0 };
-
-  const sumX = points.reduce((s, p) => s + p.scatterX, 0);
-  const sumY = points.reduce((s, p) => s + p.scatterY, 0);
-  const sumXY = points.reduce((s, p) => s + p.scatterX * p.scatterY, 0);
-  const sumX2 = points.reduce((s, p) => s + p.scatterX * p.scatterX, 0);
-
-  const denom = n * sumX2 - sumX * sumX;
-  if (Math.abs(denom) < 1e-10) return { intercept: sumY / n, slope: 0 };
-
-  const slope = (n * sumXY - sumX * sumY) / denom;
-  const intercept = (sumY - slope * sumX) / n;
-  return { intercept, slope };
+import { ScatterDataPoint, FittedLines, FittedPoint, OutcomeType, RDOptions, RDPoint } from './types';
+import { estimateRD, evaluatePolynomial, predictionStandardError, globalFitOptions, Z_95 } from './rdUtils';
+import { COVARIATES } from './constants';
+import { OUTCOMES } from './outcomeUtils';
+
+// Sample a fitted polynomial and its 95% band at `count` evenly spaced points on [from, to]
+const sampleFit = (
+  coefficients: number[],
+  covariance: number[][],
+  from: number,
+  to: number,
+  count: number
+): FittedPoint[] => {
+  const step = count < 2 ? 0 : (to - from) / (count - 1);
+  return Array.from({ length: Math.max(count, 1) }, (_, i) => {
+    const x = from + step * i;
+    const y = evaluatePolynomial(coefficients, x);
+    const margin = Z_95 * predictionStandardError(covariance, x);
+    return { x, y, lower: y - margin, upper: y + margin };
+  });
 };
 
-// Quadratic OLS: y = a + b*x + c*x^2
-const calcQuadraticOLS = (points: Point[]): { intercept: number; slope: number; quadratic: number } => {
-  const n = points.length;
-  if (n < 3) {
-    const linear = calcLinearOLS(points);
-    return { ...linear, quadratic: 0 };
-  }
-
-  const sumX = points.reduce((s, p) => s + p.scatterX, 0);
-  const sumX2 = points.reduce((s, p) => s + p.scatterX ** 2, 0);
-  const sumX3 = points.reduce((s, p) => s + p.scatterX ** 3, 0);
-  const sumX4 = points.reduce((s, p) => s + p.scatterX ** 4, 0);
-  const sumY = points.reduce((s, p) => s + p.scatterY, 0);
-  const sumXY = points.reduce((s, p) => s + p.scatterX * p.scatterY, 0);
-  const sumX2Y = points.reduce((s, p) => s + p.scatterX ** 2 * p.scatterY, 0);
-
-  const det = n * (sumX2 * sumX4 - sumX3 * sumX3)
-            - sumX * (sumX * sumX4 - sumX3 * sumX2)
-            + sumX2 * (sumX * sumX3 - sumX2 * sumX2);
-
-  if (Math.abs(det) < 1e-10) {
-    const linear = calcLinearOLS(points);
-    return { ...linear, quadratic: 0 };
-  }
-
-  const intercept = (sumY * (sumX2 * sumX4 - sumX3 * sumX3)
-                   - sumX * (sumXY * sumX4 - sumX2Y * sumX3)
-                   + sumX2 * (sumXY * sumX3 - sumX2Y * sumX2)) / det;
-  const slope = (n * (sumXY * sumX4 - sumX2Y * sumX3)
-               - sumY * (sumX * sumX4 - sumX3 * sumX2)
-               + sumX2 * (sumX * sumX2Y - sumXY * sumX2)) / det;
-  const quadratic = (n * (sumX2 * sumX2Y - sumX3 * sumXY)
-                   - sumX * (sumX * sumX2Y - sumXY * sumX2)
-                   + sumY * (sumX * sumX3 - sumX2 * sumX2)) / det;
-
-  return { intercept, slope, quadratic };
+// Attach cluster, segment, covariates and location for RD estimation (the weight is already there).
+// Province is the cluster for cluster-robust SEs.
+export const toRDPoints = (scatterData: ScatterDataPoint[]): (ScatterDataPoint & RDPoint)[] => {
+  return scatterData.map(d => {
+    const covariates = COVARIATES.map(c => d[c]);
+    return {
+      ...d,
+      cluster: d.province,
+      segment: d.boundarySegment,
+      covariates: covariates.every(v => v !== null) ? covariates as number[] : undefined,
+      // Replication-data coordinates where available, else the polygon centroid
+      location: (d.lat !== null && d.lon !== null ? [d.lat, d.lon] : [d.centroidLat, d.centroidLon]) as [number, number],
+    };
+  });
 };
 
 // Calculate all fitted lines
 export const calculateFittedLines = (
   scatterData: ScatterDataPoint[],
-  currentOutcome: OutcomeType
+  rdOptions: RDOptions = {}
 ): FittedLines => {
-  const insideData = scatterData.filter(d => d.isInside);
-  const outsideData = scatterData.filter(d => !d.isInside);
-
-  const insideLinear = calcLinearOLS(insideData);
-  const outsideLinear = calcLinearOLS(outsideData);
-  const insidePoly = calcQuadraticOLS(insideData);
-  const outsidePoly = calcQuadraticOLS(outsideData);
-
-  const maxInside = Math.max(...insideData.map(d => d.scatterX), 0);
-  const minOutside = Math.min(...outsideData.map(d => d.scatterX), 0);
-
-  const paperDiscontinuity = currentOutcome === 'stunting'
-    ? PAPER_COEFFICIENTS[currentOutcome] * 100
-    : PAPER_COEFFICIENTS[currentOutcome];
-  const naiveDiscontinuity = insideLinear.intercept - outsideLinear.intercept;
-
-  // Polynomial curves with paper's discontinuity
-  const allMean = scatterData.reduce((s, d) => s + d.scatterY, 0) / scatterData.length;
-  const paperOutsideIntercept = allMean;
-  const paperInsideIntercept = allMean + paperDiscontinuity;
+  // Donut districts are left out of every fit; the lines still span the full data range
+  const points = toRDPoints(scatterData.filter(d => !d.isDonut));
+  const maxInside = Math.max(...scatterData.filter(d => d.isInside).map(d => d.scatterX), 0);
+  const minOutside = Math.min(...scatterData.filter(d => !d.isInside).map(d => d.scatterX), 0);
+
+  // Naive fit: global linear OLS on each side (a uniform kernel spanning all the data)
+  const naiveEstimate = estimateRD(points, {
+    ...globalFitOptions(points),
+    order: 1,
+    variance: rdOptions.variance,
+    weighted: rdOptions.weighted,
+  });
+  if (!naiveEstimate) {
+    return {
+      insideLineLinear: [],
+      outsideLineLinear: [],
+      insideLinePoly: [],
+      outsideLinePoly: [],
+      naiveDiscontinuity: 0,
+      rdDiscontinuity: 0,
+      naiveEstimate: null,
+      rdEstimate: null,
+      controlledEstimate: null,
+      segmentEstimate: null,
+    };
+  }
 
   // Generate lines with SAME number of points for smooth interpolation
-  const insideLineLinear: { x: number; y: number }[] = [];
-  const insideLinePoly: { x: number; y: number }[] = [];
-  for (let x = 0; x <= Math.ceil(maxInside); x += 1) {
-    insideLineLinear.push({
-      x,
-      y: insideLinear.intercept + insideLinear.slope * x
-    });
-    insideLinePoly.push({
-      x,
-      y: paperInsideIntercept + insidePoly.slope * x + insidePoly.quadratic * x * x
-    });
+  const insideCount = Math.ceil(maxInside) + 1;
+  const outsideCount = -Math.floor(minOutside) + 1;
+  const insideLineLinear = sampleFit(
+    naiveEstimate.insideCoefficients, naiveEstimate.insideCovariance, 0, Math.ceil(maxInside), insideCount
+  );
+  const outsideLineLinear = sampleFit(
+    naiveEstimate.outsideCoefficients, naiveEstimate.outsideCovariance, Math.floor(minOutside), 0, outsideCount
+  );
+
+  // Local polynomial RD fit, drawn only within the bandwidth
+  const rdEstimate = estimateRD(points, rdOptions);
+  if (!rdEstimate) {
+    return {
+      insideLineLinear,
+      outsideLineLinear,
+      insideLinePoly: insideLineLinear,
+      outsideLinePoly: outsideLineLinear,
+      naiveDiscontinuity: naiveEstimate.estimate,
+      rdDiscontinuity: naiveEstimate.estimate,
+      naiveEstimate,
+      rdEstimate: null,
+      controlledEstimate: null,
+      segmentEstimate: null,
+    };
   }
 
-  const outsideLineLinear: { x: number; y: number }[] = [];
-  const outsideLinePoly: { x: number; y: number }[] = [];
-  for (let x = Math.floor(minOutside); x <= 0; x += 1) {
-    outsideLineLinear.push({
-      x,
-      y: outsideLinear.intercept + outsideLinear.slope * x
-    });
-    outsideLinePoly.push({
-      x,
-      y: paperOutsideIntercept + outsidePoly.slope * x + outsidePoly.quadratic * x * x
-    });
-  }
+  const insideLinePoly = sampleFit(
+    rdEstimate.insideCoefficients,
+    rdEstimate.insideCovariance,
+    0,
+    Math.min(rdEstimate.bandwidth, maxInside),
+    insideCount
+  );
+  const outsideLinePoly = sampleFit(
+    rdEstimate.outsideCoefficients,
+    rdEstimate.outsideCovariance,
+    Math.max(-rdEstimate.bandwidth, minOutside),
+    0,
+    outsideCount
+  );
 
   return {
     insideLineLinear,
     outsideLineLinear,
     insideLinePoly,
     outsideLinePoly,
-    naiveDiscontinuity,
-    paperDiscontinuity,
+    naiveDiscontinuity: naiveEstimate.estimate,
+    rdDiscontinuity: rdEstimate.estimate,
+    naiveEstimate,
+    rdEstimate,
+    controlledEstimate: estimateRD(points, {
+      ...rdOptions,
+      bandwidth: rdEstimate.bandwidth,
+      controls: true,
+    }),
+    segmentEstimate: estimateRD(points, {
+      ...rdOptions,
+      bandwidth: rdEstimate.bandwidth,
+      segmentEffects: true,
+    }),
   };
 };
 
-// Format effect value for display
+// Format effect value for display, with an optional "± margin" suffix (see the outcome registry)
 export const formatEffect = (
   discontinuity: number,
-  currentOutcome: OutcomeType
-): string => {
-  if (currentOutcome === 'consumption') {
-    const pctChange = (Math.exp(discontinuity) - 1) * 100;
-    return `${pctChange > 0 ? '+' : ''}${pctChange.toFixed(0)}%`;
-  } else if (currentOutcome === 'stunting') {
-    return `${discontinuity > 0 ? '+' : ''}${discontinuity.toFixed(1)}pp`;
-  } else {
-    return `${discontinuity > 0 ? '+' : ''}${discontinuity.toFixed(0)} m/km²`;
-  }
+  currentOutcome: OutcomeType,
+  margin?: number
+): string => OUTCOMES[currentOutcome].formatEffect(discontinuity, margin);
+
+// Format a value of any district field, with precision scaled to its magnitude
+export const formatValue = (value: number, margin?: number): string => {
+  const magnitude = Math.max(Math.abs(value), margin ?? 0);
+  const digits = magnitude >= 100 ? 0 : magnitude >= 1 ? 1 : 2;
+  const suffix = margin !== undefined ? ` ± ${margin.toFixed(digits)}` : '';
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}${suffix}`;
 };
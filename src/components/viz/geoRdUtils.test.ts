@@ -0,0 +1,58 @@
+/**
+ * Tests for the latitude/longitude RD specification
+ */
+import { estimateGeographicRD, predictGeographicRD, geoMonomials } from './geoRdUtils';
+import { GeoRDPoint } from './types';
+
+// Districts on a grid around a straight east-west boundary at 14°S; mita to the south
+const grid = (outcome: (lat: number, lon: number, inside: boolean) => number): GeoRDPoint[] => {
+  const points: GeoRDPoint[] = [];
+  for (let i = 0; i < 15; i++) {
+    for (let j = 0; j < 15; j++) {
+      const lat = -14.35 + i * 0.05 + 0.001 * ((i * 7 + j * 3) % 5);
+      const lon = -72.35 + j * 0.05;
+      const isInside = lat < -14;
+      points.push({ lat, lon, isInside, scatterX: 0, scatterY: outcome(lat, lon, isInside) });
+    }
+  }
+  return points;
+};
+const boundary: [number, number][] = Array.from({ length: 11 }, (_, i) => [-14, -72.3 + i * 0.06]);
+
+describe('geoRdUtils', () => {
+  it('lists monomials by total degree', () => {
+    expect(geoMonomials(2, 3, 2)).toEqual([2, 3, 4, 6, 9]);
+    expect(geoMonomials(1, 1, 3)).toHaveLength(9);
+  });
+
+  it('recovers the mita jump net of a smooth cubic surface', () => {
+    const points = grid((lat, lon, inside) =>
+      10 + 3 * (lat + 14) - 2 * (lon + 72) ** 2 + 4 * (lat + 14) ** 3 + (inside ? 5 : 0));
+    const result = estimateGeographicRD(points, {}, boundary)!;
+    expect(result.estimate).toBeCloseTo(5, 6);
+    expect(result.boundaryJumps).toHaveLength(boundary.length);
+    result.boundaryJumps.forEach(j => expect(j.jump).toBeCloseTo(5, 6));
+  });
+
+  it('predicts the fitted surface on either side', () => {
+    const points = grid((lat, lon, inside) => 1 + (lat + 14) + (inside ? 2 : 0));
+    const result = estimateGeographicRD(points, { order: 1 }, boundary)!;
+    expect(predictGeographicRD(result, -14.2, -72.1, true)).toBeCloseTo(1 - 0.2 + 2, 8);
+    expect(predictGeographicRD(result, -13.9, -72.1, false)).toBeCloseTo(1 + 0.1, 8);
+  });
+
+  it('lets the jump vary along the boundary when interacted', () => {
+    const points = grid((lat, lon, inside) => 2 * (lat + 14) + (inside ? 4 + 10 * (lon + 72) : 0));
+    const result = estimateGeographicRD(points, { order: 1, interacted: true }, boundary)!;
+    result.boundaryJumps.forEach(j => expect(j.jump).toBeCloseTo(4 + 10 * (j.lon + 72), 6));
+    const meanJump = result.boundaryJumps.reduce((s, j) => s + j.jump, 0) / boundary.length;
+    expect(result.estimate).toBeCloseTo(meanJump, 8);
+  });
+
+  it('only evaluates the jump where the boundary passes near the data', () => {
+    const points = grid(() => 1);
+    const far: [number, number][] = [[-14, -72.1], [-16, -70]];
+    const result = estimateGeographicRD(points, { order: 1 }, far)!;
+    expect(result.boundaryJumps.map(j => j.lat)).toEqual([-14]);
+  });
+});
@@ -0,0 +1,176 @@
+// Geographic regression discontinuity (Dell 2010): a polynomial in latitude and longitude
+// instead of distance to the boundary, with a mita dummy for the jump
+import { RDPoint, GeoRDPoint, GeoRDOptions, GeographicRDEstimate, BoundaryJump } from './types';
+import { weightedLeastSquares } from './regressionUtils';
+import { robustCovariance, combineCovariance, Z_95 } from './rdUtils';
+import { sampleBoundary } from './boundaryUtils';
+
+const DEFAULT_GEO_ORDER = 3;
+
+const KM_PER_DEGREE_LAT = 110.57;
+const KM_PER_DEGREE_LON_EQUATOR = 111.32;
+
+// Boundary points further than this from every district are outside the data (km)
+const BOUNDARY_REACH = 20;
+
+// Spacing of boundary points where the jump is evaluated (km)
+const BOUNDARY_SPACING = 10;
+
+// Keep the points that have replication-data coordinates
+export const toGeoRDPoints = <T extends RDPoint & { lat: number | null; lon: number | null }>(
+  points: T[]
+): (T & GeoRDPoint)[] => {
+  return points
+    .filter(p => p.lat !== null && p.lon !== null)
+    .map(p => ({ ...p, lat: p.lat as number, lon: p.lon as number }));
+};
+
+// Monomials x^a y^b of total degree 1..order, ordered by degree
+export const geoMonomials = (x: number, y: number, order: number): number[] => {
+  const terms: number[] = [];
+  for (let degree = 1; degree <= order; degree++) {
+    for (let b = 0; b <= degree; b++) terms.push(x ** (degree - b) * y ** b);
+  }
+  return terms;
+};
+
+// Local km coordinates around `center`, divided by `scale` for conditioning
+const toPlane = (lat: number, lon: number, center: [number, number], scale: number): [number, number] => [
+  ((lon - center[1]) * KM_PER_DEGREE_LON_EQUATOR * Math.cos((center[0] * Math.PI) / 180)) / scale,
+  ((lat - center[0]) * KM_PER_DEGREE_LAT) / scale,
+];
+
+// Row of the linear combination giving the fitted surface at (lat, lon) on one side
+const surfaceRow = (
+  estimate: Pick<GeographicRDEstimate, 'center' | 'scale' | 'order' | 'interacted' | 'extraMeans'>,
+  lat: number,
+  lon: number,
+  isInside: boolean
+): number[] => {
+  const [x, y] = toPlane(lat, lon, estimate.center, estimate.scale);
+  const terms = geoMonomials(x, y, estimate.order);
+  const treated = isInside ? 1 : 0;
+  return [
+    1,
+    ...terms,
+    treated,
+    ...(estimate.interacted ? terms.map(t => t * treated) : []),
+    ...estimate.extraMeans,
+  ];
+};
+
+// Jump (inside minus outside) at a point as a combination of the coefficients
+const jumpRow = (
+  estimate: Pick<GeographicRDEstimate, 'center' | 'scale' | 'order' | 'interacted' | 'extraMeans'>,
+  lat: number,
+  lon: number
+): number[] => {
+  const inside = surfaceRow(estimate, lat, lon, true);
+  const outside = surfaceRow(estimate, lat, lon, false);
+  return inside.map((v, j) => v - outside[j]);
+};
+
+const dot = (row: number[], coefficients: number[]): number =>
+  row.reduce((s, v, j) => s + v * coefficients[j], 0);
+
+// Fitted outcome at (lat, lon) for a district on the given side of the boundary
+export const predictGeographicRD = (
+  estimate: GeographicRDEstimate,
+  lat: number,
+  lon: number,
+  isInside: boolean
+): number => dot(surfaceRow(estimate, lat, lon, isInside), estimate.coefficients);
+
+// Dell's specification: y = a + g * mita + f(lat, lon) (+ segment effects), by OLS on all
+// districts given (Dell restricts to 100 km of the boundary; the bundled data is within 50 km).
+// The jump is evaluated along the boundary wherever it passes within reach of the data.
+export const estimateGeographicRD = (
+  points: GeoRDPoint[],
+  options: GeoRDOptions = {},
+  boundary: [number, number][] = sampleBoundary(BOUNDARY_SPACING)
+): GeographicRDEstimate | null => {
+  const order = options.order ?? DEFAULT_GEO_ORDER;
+  const variance = options.variance ?? 'hc1';
+  const interacted = options.interacted ?? false;
+  const segmentEffects = options.segmentEffects ?? false;
+
+  const usable = points.filter(p =>
+    isFinite(p.lat) && isFinite(p.lon) && (!segmentEffects || p.segment !== undefined));
+  const nInside = usable.filter(p => p.isInside).length;
+  const nOutside = usable.length - nInside;
+  if (nInside === 0 || nOutside === 0) return null;
+
+  const n = usable.length;
+  const center: [number, number] = [
+    usable.reduce((s, p) => s + p.lat, 0) / n,
+    usable.reduce((s, p) => s + p.lon, 0) / n,
+  ];
+  const raw = usable.map(p => toPlane(p.lat, p.lon, center, 1));
+  const scale = Math.max(...raw.flatMap(([x, y]) => [Math.abs(x), Math.abs(y)]), 1);
+
+  const segmentLevels = segmentEffects
+    ? Array.from(new Set(usable.map(p => p.segment as number))).sort((a, b) => a - b).slice(1)
+    : [];
+  const extras = usable.map(p => segmentLevels.map(level => (p.segment === level ? 1 : 0)));
+  const extraMeans = segmentLevels.map((_, j) => extras.reduce((s, row) => s + row[j], 0) / n);
+
+  const shape = { center, scale, order, interacted, extraMeans: new Array(segmentLevels.length).fill(0) };
+  const design = usable.map((p, i) => {
+    const row = surfaceRow(shape, p.lat, p.lon, p.isInside);
+    return [...row.slice(0, row.length - segmentLevels.length), ...extras[i]];
+  });
+  const weights = new Array(n).fill(1);
+  const fit = weightedLeastSquares(design, usable.map(p => p.scatterY), weights);
+  if (!fit) return null;
+
+  const clusters = usable.map((p, i) =>
+    variance === 'cluster' && p.cluster !== undefined ? p.cluster : `obs-${i}`);
+  const covariance = robustCovariance(
+    design, fit, weights, variance, clusters,
+    usable.map(p => [p.lat, p.lon] as [number, number]), options.conleyCutoff
+  );
+  const fitted = { center, scale, order, interacted, extraMeans };
+
+  // Jump along the stretches of boundary that the data covers
+  const planeData = usable.map(p => toPlane(p.lat, p.lon, center, 1));
+  const covered = boundary.filter(([lat, lon]) => {
+    const [bx, by] = toPlane(lat, lon, center, 1);
+    return planeData.some(([x, y]) => Math.hypot(x - bx, y - by) <= BOUNDARY_REACH);
+  });
+  const jumpRows = covered.map(([lat, lon]) => jumpRow(fitted, lat, lon));
+  const jumpCovariance = combineCovariance(covariance, jumpRows);
+  const boundaryJumps: BoundaryJump[] = covered.map(([lat, lon], i) => {
+    const jump = dot(jumpRows[i], fit.coefficients);
+    const margin = Z_95 * Math.sqrt(Math.max(jumpCovariance[i][i], 0));
+    return { lat, lon, jump, lower: jump - margin, upper: jump + margin };
+  });
+
+  // Without interactions the jump is the mita coefficient everywhere; with them, average it
+  const treatmentIndex = 1 + geoMonomials(0, 0, order).length;
+  const estimateRow = interacted
+    ? (jumpRows.length > 0
+      ? jumpRows[0].map((_, j) => jumpRows.reduce((s, row) => s + row[j], 0) / jumpRows.length)
+      : null)
+    : design[0].map((_, j) => (j === treatmentIndex ? 1 : 0));
+  if (!estimateRow) return null;
+
+  const estimate = dot(estimateRow, fit.coefficients);
+  const standardError = Math.sqrt(Math.max(combineCovariance(covariance, [estimateRow])[0][0], 0));
+
+  return {
+    estimate,
+    standardError,
+    confidenceInterval: [estimate - Z_95 * standardError, estimate + Z_95 * standardError],
+    variance,
+    order,
+    interacted,
+    nInside,
+    nOutside,
+    center,
+    scale,
+    coefficients: fit.coefficients,
+    covariance,
+    extraMeans,
+    boundaryJumps,
+  };
+};
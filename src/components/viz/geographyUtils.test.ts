@@ -0,0 +1,22 @@
+/**
+ * Tests for ubigeo decoding
+ */
+import { parseUbigeo, departmentName } from './geographyUtils';
+
+describe('geographyUtils', () => {
+  it('splits a ubigeo into department, province and district', () => {
+    expect(parseUbigeo(210701)).toEqual({ department: 21, province: 2107, district: 210701 });
+  });
+
+  it('handles codes whose leading zero was lost', () => {
+    // 080101 (Cusco, Cusco province) is stored as 80101
+    expect(parseUbigeo(80101)).toEqual({ department: 8, province: 801, district: 80101 });
+  });
+
+  it('names departments, falling back to the padded code', () => {
+    expect(departmentName(8)).toBe('Cusco');
+    expect(departmentName(3)).toBe('Apurímac');
+    expect(departmentName(99)).toBe('Department 99');
+    expect(departmentName(0)).toBe('Department 00');
+  });
+});
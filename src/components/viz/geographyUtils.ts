@@ -0,0 +1,12 @@
+// Peru's administrative hierarchy, decoded from ubigeo codes
+import { UbigeoParts } from './types';
+import { DEPARTMENT_NAMES } from './constants';
+
+export const parseUbigeo = (ubigeo: number): UbigeoParts => ({
+  department: Math.floor(ubigeo / 10000),
+  province: Math.floor(ubigeo / 100),
+  district: ubigeo,
+});
+
+export const departmentName = (department: number): string =>
+  DEPARTMENT_NAMES[department] ?? `Department ${String(department).padStart(2, '0')}`;
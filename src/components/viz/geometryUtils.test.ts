@@ -0,0 +1,63 @@
+/**
+ * Tests for running-variable geometry
+ */
+import {
+  haversineDistance,
+  pointInPolygon,
+  nearestPointOnLines,
+  distanceToLines,
+  polygonDistanceToLines,
+  pointInTerritory,
+} from './geometryUtils';
+import { mergeData } from './dataUtils';
+import mitaData from '../../data/mitaData.json';
+import { DistrictData } from './types';
+
+// A 0.1° square with its south-west corner at the origin, and a boundary along the equator
+const SQUARE: [number, number][] = [[0, 0], [0, 0.1], [0.1, 0.1], [0.1, 0]];
+const EQUATOR: [number, number][][] = [[[0, -1], [0, 1]]];
+
+describe('geometryUtils', () => {
+  it('measures great-circle distances', () => {
+    // One degree of longitude on the equator
+    expect(haversineDistance([0, 0], [0, 1])).toBeCloseTo(111.195, 2);
+    // Lima to Cusco is about 570 km
+    expect(haversineDistance([-12.046, -77.043], [-13.532, -71.967])).toBeCloseTo(571, -1);
+  });
+
+  it('tests points against polygons', () => {
+    expect(pointInPolygon([0.05, 0.05], SQUARE)).toBe(true);
+    expect(pointInPolygon([0.05, 0.15], SQUARE)).toBe(false);
+    expect(pointInTerritory([0.05, 0.15], [SQUARE, SQUARE.map(([lat, lon]) => [lat, lon + 0.1])])).toBe(true);
+  });
+
+  it('finds the nearest point on the lines and its distance', () => {
+    const [lat, lon] = nearestPointOnLines([0.1, 0.3], EQUATOR);
+    expect(lat).toBeCloseTo(0, 9);
+    expect(lon).toBeCloseTo(0.3, 9);
+    expect(distanceToLines([0.1, 0.3], EQUATOR)).toBeCloseTo(11.12, 1);
+    // Past the end of the line, the endpoint is nearest
+    expect(distanceToLines([0, 2], EQUATOR)).toBeCloseTo(111.195, 2);
+  });
+
+  it('measures polygons from their nearest edge', () => {
+    const north = SQUARE.map(([lat, lon]) => [lat + 0.2, lon] as [number, number]);
+    expect(polygonDistanceToLines(north, EQUATOR)).toBeCloseTo(haversineDistance([0, 0], [0.2, 0]), 6);
+    const straddling = SQUARE.map(([lat, lon]) => [lat - 0.05, lon - 1.05] as [number, number]);
+    expect(polygonDistanceToLines(straddling, EQUATOR)).toBe(0);
+    // The line cuts straight through, with no vertex of its own inside the square
+    const crossed = SQUARE.map(([lat, lon]) => [lat - 0.05, lon] as [number, number]);
+    expect(polygonDistanceToLines(crossed, EQUATOR)).toBe(0);
+  });
+
+  it('reproduces the replication data\'s distances and sides from its coordinates', () => {
+    expect(mergeData()).toBe(mergeData('coordinates'));
+    const merged = new Map(mergeData().map(d => [d.ubigeo, d]));
+    (mitaData as DistrictData[]).forEach(d => {
+      const district = merged.get(d.ubigeo)!;
+      expect(Math.abs(district.distance! - Math.abs(d.distance!))).toBeLessThan(0.25);
+      expect(district.isInside).toBe(d.isInside);
+      expect(district.scatterX).toBe(d.isInside ? district.distance : -district.distance!);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+// Running-variable geometry: geodesic distance to the mita boundary and point-in-polygon side tests.
+// Points, polygons and boundary lines are all [lat, lon].
+import { BOUNDARY_LINES } from './boundaryUtils';
+import { EARTH_RADIUS_KM } from './constants';
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Great-circle distance in km
+export const haversineDistance = (a: [number, number], b: [number, number]): number => {
+  const dLat = toRadians(b[0] - a[0]);
+  const dLon = toRadians(b[1] - a[1]);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[0])) * Math.cos(toRadians(b[0])) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Ray casting; the ring may be open or closed
+export const pointInPolygon = (point: [number, number], polygon: [number, number][]): boolean => {
+  const [lat, lon] = point;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+    if ((latI > lat) !== (latJ > lat) &&
+        lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Point on the lines nearest to `point`. Candidates are compared in an equirectangular
+// projection around the point, which is exact enough at district scales; the distance
+// to the winner is then measured on the sphere.
+export const nearestPointOnLines = (
+  point: [number, number],
+  lines: [number, number][][] = BOUNDARY_LINES
+): [number, number] => {
+  const k = Math.cos(toRadians(point[0]));
+  let best: [number, number] = point;
+  let bestDistance2 = Infinity;
+
+  lines.forEach(line => {
+    for (let i = 1; i < line.length; i++) {
+      const ax = (line[i - 1][1] - point[1]) * k;
+      const ay = line[i - 1][0] - point[0];
+      const dx = (line[i][1] - line[i - 1][1]) * k;
+      const dy = line[i][0] - line[i - 1][0];
+      const length2 = dx * dx + dy * dy;
+      const t = length2 > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / length2)) : 0;
+      const distance2 = (ax + t * dx) ** 2 + (ay + t * dy) ** 2;
+      if (distance2 < bestDistance2) {
+        bestDistance2 = distance2;
+        best = [
+          line[i - 1][0] + t * (line[i][0] - line[i - 1][0]),
+          line[i - 1][1] + t * (line[i][1] - line[i - 1][1]),
+        ];
+      }
+    }
+  });
+
+  return best;
+};
+
+// Geodesic distance (km) from a point to the nearest point on the lines
+export const distanceToLines = (
+  point: [number, number],
+  lines: [number, number][][] = BOUNDARY_LINES
+): number => haversineDistance(point, nearestPointOnLines(point, lines));
+
+// Whether segments ab and cd cross (touching counts); orientation tests in degrees suffice
+const segmentsIntersect = (
+  a: [number, number],
+  b: [number, number],
+  c: [number, number],
+  d: [number, number]
+): boolean => {
+  const orient = (p: [number, number], q: [number, number], r: [number, number]) =>
+    Math.sign((q[1] - p[1]) * (r[0] - p[0]) - (q[0] - p[0]) * (r[1] - p[1]));
+  const within = (p: [number, number], q: [number, number], r: [number, number]) =>
+    Math.min(p[0], q[0]) <= r[0] && r[0] <= Math.max(p[0], q[0]) &&
+    Math.min(p[1], q[1]) <= r[1] && r[1] <= Math.max(p[1], q[1]);
+  const [o1, o2, o3, o4] = [orient(a, b, c), orient(a, b, d), orient(c, d, a), orient(c, d, b)];
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (o1 === 0 && within(a, b, c)) || (o2 === 0 && within(a, b, d)) ||
+    (o3 === 0 && within(c, d, a)) || (o4 === 0 && within(c, d, b));
+};
+
+// Geodesic distance (km) from the nearest vertex of a polygon's outline to the lines.
+// Zero when the lines pass through the polygon, whether or not a line vertex falls inside it.
+export const polygonDistanceToLines = (
+  polygon: [number, number][],
+  lines: [number, number][][] = BOUNDARY_LINES
+): number => {
+  if (lines.some(line => line.some(p => pointInPolygon(p, polygon)))) return 0;
+
+  // Any vertex bounds the answer from above, so only boundary edges within that reach of
+  // the polygon's bounding box can do better
+  const bound = distanceToLines(polygon[0], lines);
+  const lats = polygon.map(p => p[0]);
+  const lons = polygon.map(p => p[1]);
+  const maxAbsLat = Math.max(...lats.map(Math.abs));
+  const kmPerDegree = (EARTH_RADIUS_KM * Math.PI) / 180;
+  const latMargin = bound / kmPerDegree;
+  const lonMargin = bound / (kmPerDegree * Math.cos(toRadians(maxAbsLat)));
+  const [minLat, maxLat] = [Math.min(...lats) - latMargin, Math.max(...lats) + latMargin];
+  const [minLon, maxLon] = [Math.min(...lons) - lonMargin, Math.max(...lons) + lonMargin];
+
+  const nearby: [number, number][][] = [];
+  lines.forEach(line => {
+    for (let i = 1; i < line.length; i++) {
+      const [a, b] = [line[i - 1], line[i]];
+      if (Math.max(a[0], b[0]) >= minLat && Math.min(a[0], b[0]) <= maxLat &&
+          Math.max(a[1], b[1]) >= minLon && Math.min(a[1], b[1]) <= maxLon) {
+        nearby.push([a, b]);
+      }
+    }
+  });
+  // A boundary edge can cut across the polygon between two of its vertices
+  const crosses = nearby.some(([a, b]) => polygon.some((p, i) =>
+    segmentsIntersect(a, b, p, polygon[(i + 1) % polygon.length])));
+  if (crosses) return 0;
+  return Math.min(bound, ...polygon.map(p => distanceToLines(p, nearby)));
+};
+
+// Inside the territory if the point falls in any of its polygons
+export const pointInTerritory = (point: [number, number], territory: [number, number][][]): boolean =>
+  territory.some(polygon => pointInPolygon(point, polygon));
@@ -0,0 +1,12 @@
+/**
+ * Tests for the viz barrel: it loads under Jest, so components' helpers can be tested through it
+ */
+import * as viz from '.';
+
+describe('viz', () => {
+  it('exports the analysis helpers and renderers', () => {
+    expect(typeof viz.estimateRD).toBe('function');
+    expect(typeof viz.renderFittedLines).toBe('function');
+    expect(viz).not.toHaveProperty('startInference');
+  });
+});
@@ -1,7 +1,28 @@
-// Main exports for visualization module
+// Main exports for visualization module. The inference client is imported directly from
+// './viz/inferenceClient': its worker URL uses import.meta, which Jest cannot parse.
 export * from './types';
 export * from './constants';
+export * from './outcomeUtils';
 export * from './dataUtils';
+export * from './validationUtils';
+export * from './uploadUtils';
+export * from './boundaryUtils';
+export * from './geometryUtils';
+export * from './topologyUtils';
+export * from './adjacencyUtils';
 export * from './scaleUtils';
+export * from './regressionUtils';
 export * from './fittedLineUtils';
+export * from './rdUtils';
+export * from './placeboUtils';
+export * from './sensitivityUtils';
+export * from './binUtils';
+export * from './densityUtils';
+export * from './spatialUtils';
+export * from './geoRdUtils';
+export * from './inferenceUtils';
+export * from './geographyUtils';
+export * from './subgroupUtils';
+export * from './tableUtils';
+export * from './replicationUtils';
 export * from './renderers';
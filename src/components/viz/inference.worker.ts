@@ -0,0 +1,22 @@
+// Web Worker running resampling inference off the main thread
+import { InferenceRequest, InferenceWorkerMessage } from './types';
+import { runInference } from './inferenceUtils';
+import { INFERENCE_DRAWS } from './constants';
+
+// Typed handle on the worker global scope (`self` is a restricted global under the app's lint rules)
+const scope = globalThis as unknown as {
+  postMessage: (message: InferenceWorkerMessage) => void;
+  onmessage: ((event: MessageEvent<InferenceRequest>) => void) | null;
+};
+
+scope.onmessage = event => {
+  const { points, rdOptions, options } = event.data;
+  const total = options.draws ?? INFERENCE_DRAWS;
+  try {
+    const result = runInference(points, rdOptions, options, completed =>
+      scope.postMessage({ type: 'progress', completed, total }));
+    scope.postMessage({ type: 'result', result });
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
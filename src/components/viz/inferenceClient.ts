@@ -0,0 +1,48 @@
+// Main-thread side of the inference worker: one worker per job, terminated when done or cancelled
+import { RDPoint, RDOptions, InferenceOptions, InferenceJob, InferenceResult, InferenceWorkerMessage } from './types';
+
+export const startInference = (
+  points: RDPoint[],
+  rdOptions: RDOptions,
+  options: InferenceOptions,
+  onProgress?: (completed: number, total: number) => void
+): InferenceJob => {
+  const worker = new Worker(new URL('./inference.worker.ts', import.meta.url));
+  let settle: (result: InferenceResult | null) => void = () => {};
+  let fail: (error: Error) => void = () => {};
+  const promise = new Promise<InferenceResult | null>((resolve, reject) => {
+    settle = resolve;
+    fail = reject;
+  });
+
+  worker.onmessage = (event: MessageEvent<InferenceWorkerMessage>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      onProgress?.(message.completed, message.total);
+      return;
+    }
+    worker.terminate();
+    if (message.type === 'result') settle(message.result);
+    else fail(new Error(message.message));
+  };
+  worker.onerror = event => {
+    worker.terminate();
+    fail(new Error(event.message));
+  };
+
+  // Only the estimation fields are cloned across (not district polygons)
+  worker.postMessage({
+    points: points.map(({ scatterX, scatterY, isInside, cluster, covariates, segment, weight, location }) =>
+      ({ scatterX, scatterY, isInside, cluster, covariates, segment, weight, location })),
+    rdOptions,
+    options,
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+};
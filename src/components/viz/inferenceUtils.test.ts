@@ -0,0 +1,77 @@
+/**
+ * Tests for permutation and cluster bootstrap inference
+ */
+import { createRandom, differenceInMeans, permutationTest, clusterBootstrap, runInference } from './inferenceUtils';
+import { estimateRD } from './rdUtils';
+import { RDPoint } from './types';
+
+// Flat outcome with noise, with or without a jump of 3 at the cutoff; 80 clusters of 2
+const makePoints = (jump: number): RDPoint[] => {
+  const random = createRandom(7);
+  return Array.from({ length: 160 }, (_, i) => {
+    const x = -40 + i * 0.5;
+    return {
+      scatterX: x,
+      scatterY: 10 + (x >= 0 ? jump : 0) + (random() - 0.5) * 2,
+      isInside: x >= 0,
+      cluster: Math.floor(i / 2),
+    };
+  });
+};
+
+describe('inferenceUtils', () => {
+  it('produces the same stream for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const c = createRandom(43);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect(c()).not.toBe(first[0]);
+    first.forEach(u => {
+      expect(u).toBeGreaterThanOrEqual(0);
+      expect(u).toBeLessThan(1);
+    });
+  });
+
+  it('computes the inside minus outside difference in means', () => {
+    expect(differenceInMeans([1, 3, 10, 14], [false, false, true, true])).toBe(10);
+  });
+
+  it('rejects under a real jump and not without one', () => {
+    const withJump = permutationTest(makePoints(3), 10, 400, createRandom(1))!;
+    expect(withJump.observed).toBeCloseTo(3, 0);
+    expect(withJump.pValue).toBeLessThan(0.01);
+    expect(withJump.draws).toHaveLength(400);
+    expect(Math.abs(withJump.confidenceInterval[0])).toBeLessThan(1);
+
+    const noJump = permutationTest(makePoints(0), 10, 400, createRandom(1))!;
+    expect(noJump.pValue).toBeGreaterThan(0.05);
+  });
+
+  it('only reshuffles districts inside the window', () => {
+    const result = permutationTest(makePoints(3), 5, 10, createRandom(1))!;
+    expect(result.nInside + result.nOutside).toBe(21);
+    expect(permutationTest(makePoints(3), 0.1, 10, createRandom(1))).toBeNull();
+  });
+
+  it('bootstraps a spread close to the cluster-robust standard error', () => {
+    const points = makePoints(3);
+    const analytic = estimateRD(points, { variance: 'cluster' })!;
+    const boot = clusterBootstrap(points, { variance: 'cluster' }, 300, createRandom(2))!;
+    expect(boot.observed).toBe(analytic.estimate);
+    expect(boot.window).toBe(analytic.bandwidth);
+    expect(boot.standardError).toBeGreaterThan(analytic.standardError / 2);
+    expect(boot.standardError).toBeLessThan(analytic.standardError * 2);
+    expect(boot.confidenceInterval[0]).toBeLessThan(boot.observed);
+    expect(boot.confidenceInterval[1]).toBeGreaterThan(boot.observed);
+  });
+
+  it('reports progress and is reproducible for a seed', () => {
+    const progress: number[] = [];
+    const first = runInference(makePoints(3), {}, { method: 'permutation', draws: 120, seed: 5 }, c => progress.push(c))!;
+    const second = runInference(makePoints(3), {}, { method: 'permutation', draws: 120, seed: 5 })!;
+    expect(progress).toEqual([50, 100]);
+    expect(second.draws).toEqual(first.draws);
+    expect(first.window).toBe(estimateRD(makePoints(3))!.bandwidth);
+  });
+});
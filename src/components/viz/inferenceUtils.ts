@@ -0,0 +1,153 @@
+// Resampling inference: local randomization permutation test and cluster bootstrap
+import { RDPoint, RDOptions, InferenceOptions, InferenceResult } from './types';
+import { estimateRD } from './rdUtils';
+import { INFERENCE_DRAWS, INFERENCE_SEED } from './constants';
+
+const PROGRESS_INTERVAL = 50; // Draws between progress callbacks
+
+// Seeded PRNG (mulberry32) so a run can be reproduced exactly
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates shuffle of a copy
+const shuffle = <T>(values: T[], random: () => number): T[] => {
+  const result = values.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const mean = (values: number[]): number => values.reduce((s, v) => s + v, 0) / values.length;
+
+const standardDeviation = (values: number[]): number => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((s, v) => s + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lo = Math.floor(position);
+  const hi = Math.ceil(position);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (position - lo);
+};
+
+// Difference in mean outcomes, inside minus outside
+export const differenceInMeans = (ys: number[], inside: boolean[]): number => {
+  const insideYs = ys.filter((_, i) => inside[i]);
+  const outsideYs = ys.filter((_, i) => !inside[i]);
+  return mean(insideYs) - mean(outsideYs);
+};
+
+// Local randomization (Cattaneo, Frandsen & Titiunik 2015): within a window around the
+// boundary, treat mita assignment as if random. The observed difference in means is compared
+// with its distribution when the inside/outside labels are reshuffled among those districts.
+export const permutationTest = (
+  points: RDPoint[],
+  window: number,
+  draws: number,
+  random: () => number,
+  onProgress?: (completed: number) => void
+): InferenceResult | null => {
+  const near = points.filter(p => Math.abs(p.scatterX) <= window);
+  const ys = near.map(p => p.scatterY);
+  const labels = near.map(p => p.isInside);
+  const nInside = labels.filter(Boolean).length;
+  const nOutside = labels.length - nInside;
+  if (nInside < 2 || nOutside < 2) return null;
+
+  const observed = differenceInMeans(ys, labels);
+  const nullDraws: number[] = [];
+  for (let i = 0; i < draws; i++) {
+    nullDraws.push(differenceInMeans(ys, shuffle(labels, random)));
+    if (onProgress && (i + 1) % PROGRESS_INTERVAL === 0) onProgress(i + 1);
+  }
+
+  // Count the observed assignment as one of the draws so p is never exactly 0
+  const extreme = nullDraws.filter(d => Math.abs(d) >= Math.abs(observed) - 1e-12).length;
+  const sorted = nullDraws.slice().sort((a, b) => a - b);
+  return {
+    method: 'permutation',
+    observed,
+    draws: nullDraws,
+    pValue: (extreme + 1) / (draws + 1),
+    standardError: standardDeviation(nullDraws),
+    confidenceInterval: [quantile(sorted, 0.025), quantile(sorted, 0.975)],
+    window,
+    nInside,
+    nOutside,
+  };
+};
+
+// Cluster bootstrap: resample clusters (provinces) with replacement and re-estimate the
+// discontinuity at the full-sample bandwidth. Points without a cluster are their own cluster.
+export const clusterBootstrap = (
+  points: RDPoint[],
+  options: RDOptions,
+  draws: number,
+  random: () => number,
+  onProgress?: (completed: number) => void
+): InferenceResult | null => {
+  const full = estimateRD(points, options);
+  if (!full) return null;
+  const fixed = { ...options, bandwidth: full.bandwidth };
+
+  const groups = new Map<number | string, RDPoint[]>();
+  points.forEach((p, i) => {
+    const key = p.cluster ?? `point-${i}`;
+    groups.set(key, [...(groups.get(key) ?? []), p]);
+  });
+  const clusters = Array.from(groups.values());
+
+  const bootDraws: number[] = [];
+  for (let i = 0; i < draws; i++) {
+    // Each resampled copy of a cluster is a distinct cluster
+    const sample = Array.from({ length: clusters.length }, (_, c) =>
+      clusters[Math.floor(random() * clusters.length)].map(p => ({ ...p, cluster: c }))
+    ).flat();
+    const estimate = estimateRD(sample, fixed);
+    if (estimate) bootDraws.push(estimate.estimate);
+    if (onProgress && (i + 1) % PROGRESS_INTERVAL === 0) onProgress(i + 1);
+  }
+  if (bootDraws.length < 2) return null;
+
+  const sorted = bootDraws.slice().sort((a, b) => a - b);
+  const below = bootDraws.filter(d => d <= 0).length / bootDraws.length;
+  return {
+    method: 'bootstrap',
+    observed: full.estimate,
+    draws: bootDraws,
+    pValue: Math.min(1, 2 * Math.min(below, 1 - below)),
+    standardError: standardDeviation(bootDraws),
+    confidenceInterval: [quantile(sorted, 0.025), quantile(sorted, 0.975)],
+    window: full.bandwidth,
+    nInside: full.nInside,
+    nOutside: full.nOutside,
+  };
+};
+
+// Run either method; the permutation window defaults to the RD bandwidth
+export const runInference = (
+  points: RDPoint[],
+  rdOptions: RDOptions,
+  options: InferenceOptions,
+  onProgress?: (completed: number) => void
+): InferenceResult | null => {
+  const draws = options.draws ?? INFERENCE_DRAWS;
+  const random = createRandom(options.seed ?? INFERENCE_SEED);
+
+  if (options.method === 'bootstrap') {
+    return clusterBootstrap(points, rdOptions, draws, random, onProgress);
+  }
+  const window = options.window ?? estimateRD(points, rdOptions)?.bandwidth;
+  return window ? permutationTest(points, window, draws, random, onProgress) : null;
+};
@@ -0,0 +1,48 @@
+/**
+ * Tests for the outcome registry and the consumers that read from it
+ */
+import { OUTCOMES, OUTCOME_IDS, isOutcome, publishedCoefficient, formatOutcomeValue, outcomeValues } from './outcomeUtils';
+import { formatEffect } from './fittedLineUtils';
+import { createYScales } from './scaleUtils';
+import { ScatterDataPoint } from './types';
+
+describe('outcomeUtils', () => {
+  it('registers every outcome with a label, and the bundled ones with a published coefficient', () => {
+    expect(OUTCOME_IDS).toEqual(['consumption', 'stunting', 'roads', 'haciendas1689', 'schooling', 'marketSelling']);
+    OUTCOME_IDS.forEach(outcome => expect(OUTCOMES[outcome].label.length).toBeGreaterThan(0));
+    expect(OUTCOME_IDS.filter(outcome => publishedCoefficient(outcome) !== null))
+      .toEqual(['consumption', 'stunting', 'roads']);
+    expect(isOutcome('roads')).toBe(true);
+    expect(isOutcome('elevation')).toBe(false);
+  });
+
+  it('scales stored values to plotted units and keeps coded zeros missing where the source codes them', () => {
+    expect(outcomeValues({
+      consumption: 5.9, stunting: 0.42, roads: 0, haciendas1689: 0, schooling: null, marketSelling: 0.25,
+    })).toEqual({
+      consumption: 5.9, stunting: 42, roads: null, haciendas1689: 0, schooling: null, marketSelling: 25,
+    });
+    expect(formatOutcomeValue(0.425, 'stunting')).toBe('42.5%');
+    expect(formatOutcomeValue(31.4, 'roads')).toBe('31 m/km²');
+  });
+
+  it('formats effects through the registry', () => {
+    expect(formatEffect(-0.25, 'consumption')).toBe('-22%');
+    // A log-point interval that crosses zero stays asymmetric and crosses zero in percent
+    expect(formatEffect(-2.045, 'consumption', 2.365)).toBe('-87% [-99%, +38%]');
+    expect(formatEffect(6, 'stunting', 2.04)).toBe('+6.0pp ± 2.0pp');
+    expect(formatEffect(-36, 'roads', 12.2)).toBe('-36 ± 12 m/km²');
+  });
+
+  it('applies each outcome\'s axis domain policy', () => {
+    const points = [
+      { outcomeY: { consumption: 5, stunting: 40, roads: 20, haciendas1689: null, schooling: null, marketSelling: null } },
+      { outcomeY: { consumption: 6, stunting: null, roads: 80, haciendas1689: null, schooling: null, marketSelling: null } },
+    ] as ScatterDataPoint[];
+    const scales = createYScales(points, 100);
+    expect(scales.stunting.domain()).toEqual([0, 100]);
+    expect(scales.consumption.domain()).toEqual([4, 7]);
+    expect(scales.roads.domain()).toEqual([19, 84]);
+    expect(scales.schooling.domain()).toEqual([0, 1]); // No values yet
+  });
+});
@@ -0,0 +1,143 @@
+// Outcome registry: everything outcome-specific (labels, units, scaling, axes, effect formatting,
+// the published coefficient) lives here. Adding an outcome means registering one descriptor; the
+// district data needs a numeric field of the same name.
+import { OutcomeDescriptor, OutcomeType, OutcomeValues, DistrictField, WeightField } from './types';
+
+// Keeps the registry's keys as literal types while checking every entry
+const defineOutcomes = <K extends string>(outcomes: Record<K, OutcomeDescriptor>): Record<K, OutcomeDescriptor> =>
+  outcomes;
+
+const signed = (value: number, digits: number): string => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// Shares are stored as fractions and plotted in percent, so effects are in percentage points
+const formatPercentagePoints = (discontinuity: number, margin?: number): string =>
+  `${signed(discontinuity, 1)}pp${margin !== undefined ? ` ± ${margin.toFixed(1)}pp` : ''}`;
+
+export const OUTCOMES = defineOutcomes({
+  consumption: {
+    label: 'Log household consumption (2001)',
+    name: 'Consumption',
+    transform: value => value,
+    domain: 'data',
+    zeroIsMissing: true,
+    axisSuffix: '',
+    effectAxisSuffix: '',
+    coefficientUnit: 'log points',
+    formatValue: value => value.toFixed(2),
+    // Log points read as a percent change. The interval is mapped endpoint by endpoint, so it is
+    // asymmetric in percent and keeps crossing zero when the log-point interval does
+    formatEffect: (discontinuity, margin) => {
+      const percent = (logPoints: number): string => `${signed((Math.exp(logPoints) - 1) * 100, 0)}%`;
+      const interval = margin !== undefined
+        ? ` [${percent(discontinuity - margin)}, ${percent(discontinuity + margin)}]`
+        : '';
+      return `${percent(discontinuity)}${interval}`;
+    },
+    published: -0.25,
+    weight: 'households',
+  },
+  stunting: {
+    label: 'Child stunting rate (2005)',
+    name: 'Stunting',
+    transform: value => value * 100, // Stored as a share, plotted in percent
+    domain: [0, 100],
+    zeroIsMissing: true,
+    axisSuffix: '%',
+    effectAxisSuffix: 'pp',
+    coefficientUnit: 'pp',
+    formatValue: value => `${value.toFixed(1)}%`,
+    formatEffect: formatPercentagePoints,
+    published: 0.06,
+    weight: 'children',
+  },
+  roads: {
+    label: 'Road density (meters/km², 2006)',
+    name: 'Roads',
+    transform: value => value,
+    domain: 'data',
+    zeroIsMissing: true,
+    axisSuffix: '',
+    effectAxisSuffix: '',
+    coefficientUnit: 'm/km²',
+    formatValue: value => `${value.toFixed(0)} m/km²`,
+    formatEffect: (discontinuity, margin) =>
+      `${signed(discontinuity, 0)}${margin !== undefined ? ` ± ${margin.toFixed(0)}` : ''} m/km²`,
+    published: -36,
+  },
+  // Channels of persistence (Dell 2010, Sections 5-6). The bundled data does not carry them, so
+  // their story steps appear only once an uploaded CSV maps a column to them. The replication
+  // check covers the baseline outcomes alone, so they have no published coefficient.
+  haciendas1689: {
+    label: 'Haciendas per district (1689)',
+    name: 'Haciendas',
+    transform: value => value,
+    domain: 'data',
+    zeroIsMissing: false,
+    axisSuffix: '',
+    effectAxisSuffix: '',
+    coefficientUnit: 'haciendas',
+    formatValue: value => value.toFixed(0),
+    formatEffect: (discontinuity, margin) =>
+      `${signed(discontinuity, 1)}${margin !== undefined ? ` ± ${margin.toFixed(1)}` : ''} haciendas`,
+    published: null,
+  },
+  schooling: {
+    label: 'Mean years of schooling (2001)',
+    name: 'Schooling',
+    transform: value => value,
+    domain: 'data',
+    zeroIsMissing: false,
+    axisSuffix: '',
+    effectAxisSuffix: '',
+    coefficientUnit: 'years',
+    formatValue: value => `${value.toFixed(1)} years`,
+    formatEffect: (discontinuity, margin) =>
+      `${signed(discontinuity, 2)}${margin !== undefined ? ` ± ${margin.toFixed(2)}` : ''} years`,
+    published: null,
+  },
+  marketSelling: {
+    label: 'Agricultural producers selling in markets',
+    name: 'Selling in markets',
+    transform: value => value * 100, // Stored as a share, plotted in percent
+    domain: [0, 100],
+    zeroIsMissing: false,
+    axisSuffix: '%',
+    effectAxisSuffix: 'pp',
+    coefficientUnit: 'pp',
+    formatValue: value => `${value.toFixed(1)}%`,
+    formatEffect: formatPercentagePoints,
+    published: null,
+  },
+});
+
+// Registered outcomes, in registration order
+export const OUTCOME_IDS = Object.keys(OUTCOMES) as OutcomeType[];
+
+// Survey sample-size fields some outcome is weighted by
+export const WEIGHT_FIELDS: WeightField[] = Array.from(new Set(
+  OUTCOME_IDS.map(id => OUTCOMES[id].weight).filter((w): w is WeightField => w !== undefined)
+));
+
+export const isOutcome = (field: DistrictField | string): field is OutcomeType => field in OUTCOMES;
+
+// Published coefficient in the units the app estimates in; transforms are linear, so a
+// coefficient converts as the difference of two transformed values
+export const publishedCoefficient = (outcome: OutcomeType): number | null => {
+  const { published, transform } = OUTCOMES[outcome];
+  return published === null ? null : transform(published) - transform(0);
+};
+
+// A stored district value in plotted units, with its unit
+export const formatOutcomeValue = (value: number, outcome: OutcomeType): string =>
+  OUTCOMES[outcome].formatValue(OUTCOMES[outcome].transform(value));
+
+// Whether a stored value counts as observed (outcomes whose source codes missing as 0 need it positive)
+export const hasOutcomeValue = (value: number | null, outcome: OutcomeType): value is number =>
+  value !== null && Number.isFinite(value) && (!OUTCOMES[outcome].zeroIsMissing || value > 0);
+
+// Every outcome of a district in plotted units; missing values stay null
+export const outcomeValues = (d: OutcomeValues): OutcomeValues =>
+  Object.fromEntries(OUTCOME_IDS.map(outcome => {
+    const value = d[outcome];
+    return [outcome, hasOutcomeValue(value, outcome) ? OUTCOMES[outcome].transform(value) : null];
+  })) as OutcomeValues;
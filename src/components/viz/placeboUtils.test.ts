@@ -0,0 +1,48 @@
+/**
+ * Tests for placebo cutoff estimation
+ */
+import { shiftToPlaceboCutoff, estimatePlacebos } from './placeboUtils';
+import { RDPoint } from './types';
+
+// Smooth linear trend with a jump of 5 at the true cutoff only
+const points: RDPoint[] = Array.from({ length: 161 }, (_, i) => {
+  const x = -40 + i * 0.5;
+  return {
+    scatterX: x,
+    scatterY: 10 + 0.2 * x + (x >= 0 ? 5 : 0) + 0.3 * Math.sin(i * 1.7),
+    isInside: x >= 0,
+  };
+});
+
+describe('placeboUtils', () => {
+  it('keeps one side of the true cutoff and re-centres on the fake one', () => {
+    const shifted = shiftToPlaceboCutoff(points, 10);
+    expect(shifted.every(p => p.scatterX >= -10)).toBe(true);
+    expect(shifted.filter(p => p.isInside).every(p => p.scatterX >= 0)).toBe(true);
+    expect(shifted).toHaveLength(points.filter(p => p.isInside).length);
+
+    const outside = shiftToPlaceboCutoff(points, -10);
+    expect(outside.every(p => p.scatterX < 10)).toBe(true);
+    expect(outside).toHaveLength(points.filter(p => !p.isInside).length);
+  });
+
+  it('finds the jump at the true cutoff and none at the placebos', () => {
+    const placebos = estimatePlacebos(points, [-20, -10, 0, 10, 20], { bandwidth: 8 });
+    expect(placebos.map(p => p.isTrueCutoff)).toEqual([false, false, true, false, false]);
+    expect(placebos[2].estimate!.estimate).toBeCloseTo(5, 0);
+    placebos
+      .filter(p => !p.isTrueCutoff)
+      .forEach(p => expect(Math.abs(p.estimate!.estimate)).toBeLessThan(1));
+  });
+
+  it('reuses the bandwidth chosen at the true cutoff', () => {
+    const placebos = estimatePlacebos(points, [-20, 0, 20]);
+    const trueBandwidth = placebos[1].estimate!.bandwidth;
+    placebos.forEach(p => expect(p.estimate!.bandwidth).toBe(trueBandwidth));
+  });
+
+  it('returns a null estimate where a side has too little data', () => {
+    const [edge] = estimatePlacebos(points, [40], { bandwidth: 2 });
+    expect(edge.estimate).toBeNull();
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for the local polynomial RD estimator
+ */
+import {
+  estimateRD,
+  selectBandwidth,
+  kernelWeight,
+  evaluatePolynomial,
+  predictionStandardError,
+} from './rdUtils';
+import { RDPoint } from './types';
+
+// Deterministic pseudo-noise so tests are reproducible
+const noise = (i: number) => Math.sin(i * 12.9898) * 0.5;
+
+const makePoints = (
+  f: (x: number) => number,
+  jump: number,
+  withNoise = false
+): RDPoint[] => {
+  const points: RDPoint[] = [];
+  for (let i = 0; i < 100; i++) {
+    const x = -49.5 + i;
+    const isInside = x > 0;
+    points.push({
+      scatterX: x,
+      scatterY: f(x) + (isInside ? jump : 0) + (withNoise ? noise(i) : 0),
+      isInside,
+    });
+  }
+  return points;
+};
+
+describe('rdUtils', () => {
+  describe('kernels', () => {
+    it('are zero outside [-1, 1]', () => {
+      expect(kernelWeight('uniform', 1.2)).toBe(0);
+      expect(kernelWeight('triangular', -1.01)).toBe(0);
+      expect(kernelWeight('epanechnikov', 2)).toBe(0);
+    });
+
+    it('peak at the cutoff', () => {
+      expect(kernelWeight('triangular', 0)).toBe(1);
+      expect(kernelWeight('epanechnikov', 0)).toBe(0.75);
+      expect(kernelWeight('uniform', 0)).toBe(0.5);
+    });
+  });
+
+  describe('estimateRD', () => {
+    it('recovers an exact jump on linear data for every kernel', () => {
+      const points = makePoints(x => 10 + 0.2 * x, -3);
+      (['uniform', 'triangular', 'epanechnikov'] as const).forEach(kernel => {
+        const result = estimateRD(points, { kernel, bandwidth: 20 });
+        expect(result).not.toBeNull();
+        expect(result!.estimate).toBeCloseTo(-3, 8);
+      });
+    });
+
+    it('recovers a jump on cubic data with a cubic fit', () => {
+      const points = makePoints(x => 1 + 0.1 * x - 0.01 * x * x + 0.0002 * x ** 3, 5);
+      const result = estimateRD(points, { order: 3, bandwidth: 40 });
+      expect(result!.estimate).toBeCloseTo(5, 6);
+      expect(evaluatePolynomial(result!.insideCoefficients, 10))
+        .toBeCloseTo(6 + 1 - 1 + 0.2, 6);
+    });
+
+    it('returns residuals keyed by the index of each point in the window', () => {
+      const points = makePoints(x => 5 + 0.3 * x, 2, true);
+      const result = estimateRD(points, { bandwidth: 20 })!;
+      expect(result.residuals.size).toBe(result.nInside + result.nOutside);
+      expect(result.residuals.has(0)).toBe(false);
+      expect(result.residuals.has(50)).toBe(true);
+    });
+
+    it('reports the effective N on each side of the cutoff', () => {
+      const points = makePoints(x => x, 1);
+      const result = estimateRD(points, { kernel: 'triangular', bandwidth: 10 });
+      // Points at ±0.5, ±1.5, ..., ±9.5 have positive weight
+      expect(result!.nInside).toBe(10);
+      expect(result!.nOutside).toBe(10);
+      expect(result!.bandwidth).toBe(10);
+    });
+
+    it('returns null when a side has too few observations', () => {
+      const points = makePoints(x => x, 1);
+      expect(estimateRD(points, { order: 2, bandwidth: 1 })).toBeNull();
+    });
+  });
+
+  describe('selectBandwidth', () => {
+    it('stays within the support of the running variable', () => {
+      const points = makePoints(x => 2 + 0.05 * x * x, 1, true);
+      const h = selectBandwidth(points);
+      expect(h).toBeGreaterThan(0);
+      expect(h).toBeLessThanOrEqual(50);
+    });
+
+    it('shrinks when the curvature gap across the cutoff grows', () => {
+      // Equal curvature on both sides cancels in the bias, so bend one side only
+      const gentle = selectBandwidth(makePoints(x => (x > 0 ? 0.001 * x * x : 0), 1, true));
+      const steep = selectBandwidth(makePoints(x => (x > 0 ? 0.05 * x * x : 0), 1, true));
+      expect(steep).toBeLessThan(gentle);
+    });
+
+    it('keeps at least ten districts on each side', () => {
+      // Points sit at |x| = 0.5, 1.5, ...; the tenth on each side is at 9.5
+      const h = selectBandwidth(makePoints(x => (x > 0 ? 5 * x * x : 0), 1, true));
+      expect(h).toBeGreaterThan(9.5);
+    });
+  });
+
+  describe('variance estimation', () => {
+    const noisy = makePoints(x => 10 + 0.2 * x, -3, true);
+
+    it('builds a symmetric 95% interval from the standard error', () => {
+      const result = estimateRD(noisy, { bandwidth: 30 })!;
+      expect(result.variance).toBe('hc1');
+      expect(result.standardError).toBeGreaterThan(0);
+      expect(result.confidenceInterval[0]).toBeCloseTo(result.estimate - 1.959964 * result.standardError, 10);
+      expect(result.confidenceInterval[1]).toBeCloseTo(result.estimate + 1.959964 * result.standardError, 10);
+    });
+
+    it('matches HC1 when every observation is its own cluster', () => {
+      const singletons = noisy.map((p, i) => ({ ...p, cluster: i }));
+      const hc1 = estimateRD(singletons, { bandwidth: 30, variance: 'hc1' })!;
+      const cluster = estimateRD(singletons, { bandwidth: 30, variance: 'cluster' })!;
+      expect(cluster.standardError).toBeCloseTo(hc1.standardError, 10);
+    });
+
+    it('widens with clustered shocks', () => {
+      // Blocks of 10 neighbours share a common shock
+      const clustered = noisy.map((p, i) => ({
+        ...p,
+        scatterY: p.scatterY + (Math.floor(i / 10) % 2 === 0 ? 1 : -1),
+        cluster: Math.floor(i / 10),
+      }));
+      const hc1 = estimateRD(clustered, { bandwidth: 50, variance: 'hc1' })!;
+      const cluster = estimateRD(clustered, { bandwidth: 50, variance: 'cluster' })!;
+      expect(cluster.standardError).toBeGreaterThan(hc1.standardError);
+    });
+
+    // Districts 1.1 km apart along the equator, in the order of the running variable
+    const located = noisy.map((p, i) => ({ ...p, location: [0, i * 0.01] as [number, number] }));
+
+    it('matches HC1 under Conley when the cutoff is shorter than any distance', () => {
+      const hc1 = estimateRD(located, { bandwidth: 30, variance: 'hc1' })!;
+      const conley = estimateRD(located, { bandwidth: 30, variance: 'conley', conleyCutoff: 1 })!;
+      expect(conley.variance).toBe('conley');
+      expect(conley.standardError).toBeCloseTo(hc1.standardError, 10);
+    });
+
+    it('widens under Conley with spatially correlated shocks', () => {
+      const shocked = located.map((p, i) => ({ ...p, scatterY: p.scatterY + (Math.floor(i / 10) % 2 === 0 ? 1 : -1) }));
+      const hc1 = estimateRD(shocked, { bandwidth: 50, variance: 'hc1' })!;
+      const conley = estimateRD(shocked, { bandwidth: 50, variance: 'conley', conleyCutoff: 10 })!;
+      expect(conley.standardError).toBeGreaterThan(hc1.standardError);
+      // Points without a location are dropped
+      const partial = located.map((p, i) => (i % 2 === 0 ? { ...p, location: undefined } : p));
+      const result = estimateRD(partial, { bandwidth: 50, variance: 'conley' })!;
+      expect(result.nInside + result.nOutside).toBe(50);
+    });
+
+    it('returns coefficient covariances for confidence bands', () => {
+      const result = estimateRD(noisy, { order: 2, bandwidth: 30, variance: 'hc2' })!;
+      expect(result.insideCovariance).toHaveLength(3);
+      expect(predictionStandardError(result.insideCovariance, 0))
+        .toBeCloseTo(Math.sqrt(result.insideCovariance[0][0]), 10);
+    });
+  });
+
+  describe('covariate adjustment', () => {
+    // Covariate that differs across the cutoff and shifts the outcome
+    const withCovariate = makePoints(x => 10 + 0.2 * x, -3, true).map((p, i) => {
+      const z = (p.isInside ? 2 : 0) + Math.cos(i);
+      return { ...p, scatterY: p.scatterY + 1.5 * z, covariates: [z] };
+    });
+
+    it('partials out covariates with a pooled coefficient', () => {
+      const unadjusted = estimateRD(withCovariate, { bandwidth: 30 })!;
+      const adjusted = estimateRD(withCovariate, { bandwidth: 30, controls: true })!;
+      expect(adjusted.covariateCoefficients[0]).toBeCloseTo(1.5, 1);
+      expect(Math.abs(adjusted.estimate + 3)).toBeLessThan(Math.abs(unadjusted.estimate + 3));
+    });
+
+    it('drops observations with missing covariates', () => {
+      const partial = withCovariate.map((p, i) => (i % 2 === 0 ? { ...p, covariates: undefined } : p));
+      const full = estimateRD(withCovariate, { bandwidth: 30, controls: true })!;
+      const result = estimateRD(partial, { bandwidth: 30, controls: true })!;
+      expect(result.nInside + result.nOutside).toBeLessThan(full.nInside + full.nOutside);
+    });
+
+    it('returns null when no observation has covariates', () => {
+      const none = withCovariate.map(p => ({ ...p, covariates: undefined }));
+      expect(estimateRD(none, { bandwidth: 30, controls: true })).toBeNull();
+    });
+  });
+
+  describe('weighted estimation', () => {
+    const points = makePoints(x => 5 + 0.1 * x, 2, true);
+    const weighted = points.map((p, i) => ({ ...p, weight: 1 + (i % 3) }));
+
+    it('matches the unweighted fit when all weights are equal', () => {
+      const equal = points.map(p => ({ ...p, weight: 4 }));
+      const result = estimateRD(equal, { bandwidth: 30, weighted: true })!;
+      const unweighted = estimateRD(points, { bandwidth: 30 })!;
+      expect(result.estimate).toBeCloseTo(unweighted.estimate, 10);
+      expect(result.standardError).toBeCloseTo(unweighted.standardError, 10);
+    });
+
+    it('treats integer weights like repeated observations', () => {
+      const repeated = weighted.flatMap(p => Array.from({ length: p.weight }, () => p));
+      const result = estimateRD(weighted, { bandwidth: 30, weighted: true })!;
+      const expanded = estimateRD(repeated, { bandwidth: 30 })!;
+      expect(result.estimate).toBeCloseTo(expanded.estimate, 10);
+      expect(result.insideCoefficients[1]).toBeCloseTo(expanded.insideCoefficients[1], 10);
+    });
+
+    it('ignores weights unless asked, and drops unweighted points when weighting', () => {
+      expect(estimateRD(weighted, { bandwidth: 30 })!.estimate)
+        .toBeCloseTo(estimateRD(points, { bandwidth: 30 })!.estimate, 10);
+      const partial = weighted.map((p, i) => (i % 2 === 0 ? { ...p, weight: undefined } : p));
+      const result = estimateRD(partial, { bandwidth: 30, weighted: true })!;
+      expect(result.nInside + result.nOutside).toBe(30);
+      expect(estimateRD(points, { bandwidth: 30, weighted: true })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,337 @@
+// Local polynomial regression discontinuity estimation
+import { KernelType, VarianceType, RDPoint, RDOptions, RDEstimate } from './types';
+import { weightedLeastSquares, polynomialDesign, choleskySolve, RegressionFit } from './regressionUtils';
+import { haversineDistance } from './geometryUtils';
+import { CONLEY_CUTOFF } from './constants';
+
+const DEFAULT_KERNEL: KernelType = 'triangular';
+const DEFAULT_ORDER = 1;
+const DEFAULT_VARIANCE: VarianceType = 'hc1';
+// Fewest districts a data-driven bandwidth leaves on each side of the cutoff: with only a
+// handful, the local fit extrapolates from a few noisy points and the jump is meaningless
+const MIN_POINTS_PER_SIDE = 10;
+
+// Two-sided 95% normal critical value
+export const Z_95 = 1.959964;
+
+// Kernel functions on u = x / h, zero outside [-1, 1]
+const KERNELS: Record<KernelType, (u: number) => number> = {
+  uniform: u => (Math.abs(u) <= 1 ? 0.5 : 0),
+  triangular: u => (Math.abs(u) <= 1 ? 1 - Math.abs(u) : 0),
+  epanechnikov: u => (Math.abs(u) <= 1 ? 0.75 * (1 - u * u) : 0),
+};
+
+export const kernelWeight = (kernel: KernelType, u: number): number => KERNELS[kernel](u);
+
+// Evaluate a polynomial with the constant term first
+export const evaluatePolynomial = (coefficients: number[], x: number): number => {
+  return coefficients.reduce((sum, c, j) => sum + c * x ** j, 0);
+};
+
+// Boundary kernel constants for an order-p fit at the cutoff, by Simpson's rule on [0, 1]:
+// bias  B_K = e0' G^-1 nu,  variance  V_K = e0' G^-1 L G^-1 e0
+const kernelConstantsCache = new Map<string, { bias: number; variance: number }>();
+
+const getKernelConstants = (kernel: KernelType, order: number): { bias: number; variance: number } => {
+  const key = `${kernel}-${order}`;
+  const cached = kernelConstantsCache.get(key);
+  if (cached) return cached;
+
+  const k = order + 1;
+  const steps = 2000;
+  const integrate = (f: (u: number) => number): number => {
+    const h = 1 / steps;
+    let sum = f(0) + f(1);
+    for (let i = 1; i < steps; i++) sum += (i % 2 === 0 ? 2 : 4) * f(i * h);
+    return (sum * h) / 3;
+  };
+  const K = KERNELS[kernel];
+
+  const gamma = Array.from({ length: k }, (_, a) =>
+    Array.from({ length: k }, (_, b) => integrate(u => K(u) * u ** (a + b))));
+  const lambda = Array.from({ length: k }, (_, a) =>
+    Array.from({ length: k }, (_, b) => integrate(u => K(u) ** 2 * u ** (a + b))));
+  const nu = Array.from({ length: k }, (_, a) => integrate(u => K(u) * u ** (a + order + 1)));
+
+  // e0' G^-1 (G is symmetric, so this is the first column of G^-1)
+  const e0Ginv = choleskySolve(gamma, gamma.map((_, i) => (i === 0 ? 1 : 0))) as number[];
+  const bias = e0Ginv.reduce((s, g, a) => s + g * nu[a], 0);
+  const variance = e0Ginv.reduce((s, ga, a) =>
+    s + e0Ginv.reduce((t, gb, b) => t + ga * lambda[a][b] * gb, 0), 0);
+
+  const constants = { bias, variance };
+  kernelConstantsCache.set(key, constants);
+  return constants;
+};
+
+const sampleVariance = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1);
+};
+
+// Smallest bandwidth leaving MIN_POINTS_PER_SIDE (and at least order + 2) observations
+// strictly inside the window on each side
+const minimumBandwidth = (points: RDPoint[], order: number): number => {
+  const needed = Math.max(order + 2, MIN_POINTS_PER_SIDE);
+  const sideMin = (side: RDPoint[]): number => {
+    const sorted = side.map(p => Math.abs(p.scatterX)).sort((a, b) => a - b);
+    return sorted.length >= needed ? sorted[needed - 1] : Infinity;
+  };
+  const inside = sideMin(points.filter(p => p.isInside));
+  const outside = sideMin(points.filter(p => !p.isInside));
+  return Math.max(inside, outside) * 1.0001;
+};
+
+// MSE-optimal bandwidth for the local polynomial estimate at the cutoff
+// (Imbens & Kalyanaraman 2012 plug-in, generalised to order p):
+// h = [ V_K (s2+ + s2-) / f(0) / (2(p+1) n (B^2 + R)) ]^(1 / (2p + 3))
+export const selectBandwidth = (points: RDPoint[], options: RDOptions = {}): number => {
+  const kernel = options.kernel ?? DEFAULT_KERNEL;
+  const order = options.order ?? DEFAULT_ORDER;
+  const n = points.length;
+  const xs = points.map(p => p.scatterX);
+  const maxBandwidth = Math.max(...xs.map(Math.abs)) * 1.0001;
+  const minBandwidth = minimumBandwidth(points, order);
+  if (!isFinite(minBandwidth)) return maxBandwidth;
+
+  // Step 1: density and conditional variances with a Silverman pilot bandwidth
+  const pilot = Math.max(1.84 * Math.sqrt(sampleVariance(xs)) * n ** (-1 / 5), minBandwidth);
+  const insidePilot = points.filter(p => p.isInside && Math.abs(p.scatterX) < pilot);
+  const outsidePilot = points.filter(p => !p.isInside && Math.abs(p.scatterX) < pilot);
+  const density = (insidePilot.length + outsidePilot.length) / (2 * n * pilot);
+  const variance = sampleVariance(insidePilot.map(p => p.scatterY))
+    + sampleVariance(outsidePilot.map(p => p.scatterY));
+
+  // Step 2: order p+1 derivatives from global order p+2 fits on each side
+  // (fitted in x / maxBandwidth for conditioning, then rescaled)
+  const curvature = (side: RDPoint[]): { value: number; variance: number } | null => {
+    const fit = weightedLeastSquares(
+      polynomialDesign(side.map(p => p.scatterX / maxBandwidth), order + 2),
+      side.map(p => p.scatterY)
+    );
+    if (!fit) return null;
+    const scale = maxBandwidth ** (order + 1);
+    return {
+      value: fit.coefficients[order + 1] / scale,
+      variance: (fit.residualVariance * fit.inverse[order + 1][order + 1]) / scale ** 2,
+    };
+  };
+  const insideCurvature = curvature(points.filter(p => p.isInside));
+  const outsideCurvature = curvature(points.filter(p => !p.isInside));
+  if (!insideCurvature || !outsideCurvature || density <= 0) return maxBandwidth;
+
+  // Step 3: plug in, regularising by the sampling variance of the curvature estimates
+  const constants = getKernelConstants(kernel, order);
+  const bias = constants.bias * (insideCurvature.value - outsideCurvature.value);
+  const regularisation = constants.bias ** 2 * (insideCurvature.variance + outsideCurvature.variance);
+  const numerator = constants.variance * variance / density;
+  const denominator = 2 * (order + 1) * n * (bias ** 2 + regularisation);
+  if (denominator <= 0 || numerator <= 0) return maxBandwidth;
+
+  const h = (numerator / denominator) ** (1 / (2 * order + 3));
+  return Math.min(Math.max(h, minBandwidth), maxBandwidth);
+};
+
+// Sum of outer products of score contributions, summed within clusters first
+const clusteredMeat = (scores: number[][], clusters: (number | string)[]): number[][] => {
+  const k = scores[0]?.length ?? 0;
+  const totals = new Map<number | string, number[]>();
+  scores.forEach((score, i) => {
+    const total = totals.get(clusters[i]) ?? new Array(k).fill(0);
+    score.forEach((v, j) => { total[j] += v; });
+    totals.set(clusters[i], total);
+  });
+
+  const meat = Array.from({ length: k }, () => new Array(k).fill(0));
+  totals.forEach(total => {
+    for (let a = 0; a < k; a++) {
+      for (let b = 0; b < k; b++) meat[a][b] += total[a] * total[b];
+    }
+  });
+  return meat;
+};
+
+// Conley (1999) spatial HAC: outer products of every pair of scores, weighted by a Bartlett
+// kernel in distance that falls from 1 at the same spot to 0 at the cutoff
+const conleyMeat = (scores: number[][], locations: [number, number][], cutoff: number): number[][] => {
+  const k = scores[0]?.length ?? 0;
+  const meat = Array.from({ length: k }, () => new Array(k).fill(0));
+  scores.forEach((si, i) => {
+    scores.forEach((sj, j) => {
+      const w = i === j ? 1 : Math.max(0, 1 - haversineDistance(locations[i], locations[j]) / cutoff);
+      if (w === 0) return;
+      for (let a = 0; a < k; a++) {
+        for (let b = 0; b < k; b++) meat[a][b] += w * si[a] * sj[b];
+      }
+    });
+  });
+  return meat;
+};
+
+// Sandwich covariance of WLS coefficients: HC1, HC2, cluster-robust or Conley spatial HAC.
+// Score contributions are (X'WX)^-1 x_i w_i e_i; HC2 inflates e_i by 1 / sqrt(1 - h_ii).
+export const robustCovariance = (
+  design: number[][],
+  fit: RegressionFit,
+  weights: number[],
+  variance: VarianceType,
+  clusters: (number | string)[],
+  locations: [number, number][] = [],
+  conleyCutoff = CONLEY_CUTOFF
+): number[][] => {
+  const scores = design.map((row, i) => {
+    const inverseRow = fit.inverse.map(r => r.reduce((s, v, j) => s + v * row[j], 0));
+    const residual = fit.residuals[i];
+    const adjusted = variance === 'hc2'
+      ? residual / Math.sqrt(Math.max(1 - fit.leverage[i], 1e-12))
+      : residual;
+    return inverseRow.map(v => v * weights[i] * adjusted);
+  });
+
+  // Small-sample corrections (Stata conventions)
+  const n = design.length;
+  const nParams = design[0]?.length ?? 0;
+  const nClusters = new Set(clusters).size;
+  const factor = variance === 'hc2'
+    ? 1
+    : variance === 'cluster'
+      ? (nClusters / Math.max(nClusters - 1, 1)) * ((n - 1) / Math.max(n - nParams, 1))
+      : n / Math.max(n - nParams, 1);
+
+  const meat = variance === 'conley'
+    ? conleyMeat(scores, locations, conleyCutoff)
+    : clusteredMeat(scores, clusters);
+  return meat.map(row => row.map(v => factor * v));
+};
+
+// Standard error of a fitted polynomial value at x, from the coefficient covariance
+export const predictionStandardError = (covariance: number[][], x: number): number => {
+  const row = covariance.map((_, j) => x ** j);
+  const value = row.reduce((s, ra, a) =>
+    s + row.reduce((t, rb, b) => t + ra * covariance[a][b] * rb, 0), 0);
+  return Math.sqrt(Math.max(value, 0));
+};
+
+// Covariance of the linear combinations L b, given Cov(b) = V
+export const combineCovariance = (V: number[][], L: number[][]): number[][] => {
+  return L.map(la => L.map(lb =>
+    la.reduce((s, va, a) => s + va * lb.reduce((t, vb, b) => t + V[a][b] * vb, 0), 0)));
+};
+
+// Global fit: polynomial OLS on each side over all the data (a uniform kernel spanning every point)
+export const globalFitOptions = (points: RDPoint[]): RDOptions => ({
+  kernel: 'uniform',
+  bandwidth: Math.max(...points.map(p => Math.abs(p.scatterX)), 0) + 1,
+});
+
+// Local polynomial RD estimate at the cutoff (scatterX = 0), fitted as one interacted
+// regression on [1, x..x^p, T, T*x..T*x^p, Z, S] so that covariates Z and segment dummies S
+// share a coefficient across sides (Calonico, Cattaneo, Farrell & Titiunik 2019)
+export const estimateRD = (points: RDPoint[], options: RDOptions = {}): RDEstimate | null => {
+  const kernel = options.kernel ?? DEFAULT_KERNEL;
+  const order = options.order ?? DEFAULT_ORDER;
+  const variance = options.variance ?? DEFAULT_VARIANCE;
+  const controls = options.controls ?? false;
+  const segmentEffects = options.segmentEffects ?? false;
+  const weighted = options.weighted ?? false;
+  const bandwidth = options.bandwidth ?? selectBandwidth(points, { kernel, order });
+  if (!(bandwidth > 0)) return null;
+
+  // Drop observations missing any covariate, segment, weight or location that the specification needs
+  const usable = points.map((p, index) => ({ ...p, index })).filter(p =>
+    (!controls || (p.covariates !== undefined && p.covariates.every(v => isFinite(v)))) &&
+    (!segmentEffects || p.segment !== undefined) &&
+    (!weighted || (p.weight ?? 0) > 0) &&
+    (variance !== 'conley' || p.location !== undefined));
+  const nCovariates = controls ? usable[0]?.covariates?.length ?? 0 : 0;
+  if (controls && nCovariates === 0) return null;
+
+  // Observations without a cluster are their own cluster
+  const active = usable
+    .map((p, i) => ({
+      ...p,
+      u: p.scatterX / bandwidth,
+      clusterId: variance === 'cluster' && p.cluster !== undefined ? p.cluster : `obs-${i}`,
+    }))
+    .filter(p => kernelWeight(kernel, p.u) > 0);
+
+  const k = order + 1;
+  const nInside = active.filter(p => p.isInside).length;
+  const nOutside = active.length - nInside;
+  if (nInside <= order || nOutside <= order) return null;
+
+  // Segment dummies for every segment in the sample except the first
+  const segmentLevels = segmentEffects
+    ? Array.from(new Set(active.map(p => p.segment as number))).sort((a, b) => a - b).slice(1)
+    : [];
+  const extras = active.map(p => [
+    ...(controls ? p.covariates as number[] : []),
+    ...segmentLevels.map(level => (p.segment === level ? 1 : 0)),
+  ]);
+  const nExtras = nCovariates + segmentLevels.length;
+
+  // Fit in u = x / h for conditioning, then rescale coefficients back to km
+  const design = active.map((p, i) => {
+    const powers = Array.from({ length: k }, (_, j) => p.u ** j);
+    const treated = p.isInside ? 1 : 0;
+    return [...powers, ...powers.map(v => v * treated), ...extras[i]];
+  });
+  // WLS: kernel weights times observation weights (e.g. survey sample sizes)
+  const weights = active.map(p => kernelWeight(kernel, p.u) * (weighted ? p.weight as number : 1));
+  const fit = weightedLeastSquares(design, active.map(p => p.scatterY), weights);
+  if (!fit) return null;
+
+  const n = active.length;
+  const nParams = design[0].length;
+  const robust = robustCovariance(
+    design, fit, weights, variance, active.map(p => p.clusterId),
+    active.map(p => p.location as [number, number]), options.conleyCutoff
+  );
+
+  // Back to km: polynomial terms scale by h^-j, covariates and dummies are unscaled
+  const scale = [
+    ...Array.from({ length: k }, (_, j) => bandwidth ** j),
+    ...Array.from({ length: k }, (_, j) => bandwidth ** j),
+    ...new Array(nExtras).fill(1),
+  ];
+  const coefficients = fit.coefficients.map((c, j) => c / scale[j]);
+  const covariance = robust.map((row, a) => row.map((v, b) => v / (scale[a] * scale[b])));
+
+  // Side curves are drawn at the mean covariate (and segment) values of the estimation sample
+  const extraMeans = Array.from({ length: nExtras }, (_, j) =>
+    extras.reduce((s, row) => s + row[j], 0) / n);
+  const sideCombination = (treated: boolean): number[][] =>
+    Array.from({ length: k }, (_, j) => {
+      const row = new Array(nParams).fill(0);
+      row[j] = 1;
+      if (treated) row[k + j] = 1;
+      if (j === 0) extraMeans.forEach((m, c) => { row[2 * k + c] = m; });
+      return row;
+    });
+  const applyCombination = (L: number[][]): number[] =>
+    L.map(row => row.reduce((s, v, j) => s + v * coefficients[j], 0));
+
+  const insideCombination = sideCombination(true);
+  const outsideCombination = sideCombination(false);
+  const estimate = coefficients[k];
+  const standardError = Math.sqrt(Math.max(covariance[k][k], 0));
+
+  return {
+    estimate,
+    standardError,
+    confidenceInterval: [estimate - Z_95 * standardError, estimate + Z_95 * standardError],
+    variance,
+    bandwidth,
+    kernel,
+    order,
+    nInside,
+    nOutside,
+    insideCoefficients: applyCombination(insideCombination),
+    outsideCoefficients: applyCombination(outsideCombination),
+    insideCovariance: combineCovariance(covariance, insideCombination),
+    outsideCovariance: combineCovariance(covariance, outsideCombination),
+    covariateCoefficients: coefficients.slice(2 * k, 2 * k + nCovariates),
+    residuals: new Map(active.map((p, i) => [p.index, fit.residuals[i]])),
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * Tests for the weighted least-squares engine
+ */
+import { weightedLeastSquares, polynomialDesign, choleskySolve } from './regressionUtils';
+
+describe('regressionUtils', () => {
+  describe('polynomialDesign', () => {
+    it('builds powers of x followed by extra regressors', () => {
+      expect(polynomialDesign([2, 3], 2, [[7], [8]])).toEqual([
+        [1, 2, 4, 7],
+        [1, 3, 9, 8],
+      ]);
+    });
+  });
+
+  describe('weightedLeastSquares', () => {
+    const xs = Array.from({ length: 41 }, (_, i) => -20 + i);
+
+    it.each([1, 2, 3, 4])('recovers an exact degree-%i polynomial', order => {
+      const truth = [3, -0.5, 0.02, -0.001, 0.00005].slice(0, order + 1);
+      const ys = xs.map(x => truth.reduce((s, c, j) => s + c * x ** j, 0));
+      const fit = weightedLeastSquares(polynomialDesign(xs, order), ys)!;
+      fit.coefficients.forEach((c, j) => expect(c).toBeCloseTo(truth[j], 8));
+      fit.residuals.forEach(e => expect(Math.abs(e)).toBeLessThan(1e-8));
+    });
+
+    it('matches the closed-form simple regression', () => {
+      const ys = xs.map(x => 1 + 2 * x + Math.sin(x));
+      const meanX = xs.reduce((s, x) => s + x, 0) / xs.length;
+      const meanY = ys.reduce((s, y) => s + y, 0) / ys.length;
+      const slope = xs.reduce((s, x, i) => s + (x - meanX) * (ys[i] - meanY), 0)
+        / xs.reduce((s, x) => s + (x - meanX) ** 2, 0);
+      const fit = weightedLeastSquares(polynomialDesign(xs, 1), ys)!;
+      expect(fit.coefficients[1]).toBeCloseTo(slope, 10);
+      expect(fit.coefficients[0]).toBeCloseTo(meanY - slope * meanX, 10);
+    });
+
+    it('ignores zero-weight observations', () => {
+      const ys = xs.map(x => (x > 0 ? 100 : 1 + x));
+      const weights = xs.map(x => (x > 0 ? 0 : 1));
+      const fit = weightedLeastSquares(polynomialDesign(xs, 1), ys, weights)!;
+      expect(fit.coefficients[0]).toBeCloseTo(1, 10);
+      expect(fit.coefficients[1]).toBeCloseTo(1, 10);
+    });
+
+    it('partials out extra regressors', () => {
+      const z = xs.map(x => Math.cos(x));
+      const ys = xs.map((x, i) => 2 + 0.3 * x + 5 * z[i]);
+      const fit = weightedLeastSquares(polynomialDesign(xs, 1, z.map(v => [v])), ys)!;
+      expect(fit.coefficients[2]).toBeCloseTo(5, 10);
+    });
+
+    it('returns null for a rank-deficient design', () => {
+      const X = xs.map(x => [1, x, 2 * x]);
+      expect(weightedLeastSquares(X, xs)).toBeNull();
+    });
+
+    it('leverages sum to the number of parameters', () => {
+      const fit = weightedLeastSquares(polynomialDesign(xs, 2), xs.map(x => x * x))!;
+      expect(fit.leverage.reduce((s, h) => s + h, 0)).toBeCloseTo(3, 10);
+    });
+  });
+
+  describe('choleskySolve', () => {
+    it('solves a positive-definite system', () => {
+      const x = choleskySolve([[4, 2], [2, 3]], [2, 5])!;
+      expect(x[0]).toBeCloseTo(-0.5, 12);
+      expect(x[1]).toBeCloseTo(2, 12);
+    });
+
+    it('returns null when the matrix is not positive definite', () => {
+      expect(choleskySolve([[1, 2], [2, 1]], [1, 1])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// Weighted least squares on a design matrix, solved by Householder QR
+
+export interface RegressionFit {
+  coefficients: number[];
+  inverse: number[][]; // (X'WX)^-1
+  fitted: number[];
+  residuals: number[];
+  leverage: number[]; // h_ii = w_i x_i' (X'WX)^-1 x_i
+  residualVariance: number; // sum(w e^2) / (n - k)
+}
+
+// Relative tolerance on the diagonal of R below which the design is rank deficient
+const RANK_TOLERANCE = 1e-10;
+
+// Design matrix rows (1, x, ..., x^order, ...extra)
+export const polynomialDesign = (
+  xs: number[],
+  order: number,
+  extraRegressors: number[][] = []
+): number[][] => {
+  return xs.map((x, i) => [
+    ...Array.from({ length: order + 1 }, (_, j) => x ** j),
+    ...(extraRegressors[i] ?? []),
+  ]);
+};
+
+// Solve the upper-triangular system R x = b
+const backSubstitute = (R: number[][], b: number[]): number[] => {
+  const k = b.length;
+  const x = new Array(k).fill(0);
+  for (let row = k - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let j = row + 1; j < k; j++) sum -= R[row][j] * x[j];
+    x[row] = sum / R[row][row];
+  }
+  return x;
+};
+
+// Minimise sum w_i (y_i - x_i' b)^2; null if the weighted design is rank deficient.
+// Observations with zero weight do not count towards n.
+export const weightedLeastSquares = (
+  X: number[][],
+  y: number[],
+  weights?: number[]
+): RegressionFit | null => {
+  const n = X.length;
+  const k = X[0]?.length ?? 0;
+  const w = weights ?? new Array(n).fill(1);
+  const used = w.filter(v => v > 0).length;
+  if (k === 0 || used < k) return null;
+
+  // Work on sqrt(W) X and sqrt(W) y
+  const A = X.map((row, i) => row.map(v => v * Math.sqrt(w[i])));
+  const b = y.map((v, i) => v * Math.sqrt(w[i]));
+
+  // Householder reflections: A -> R (upper k x k block), b -> Q'b
+  for (let col = 0; col < k; col++) {
+    let norm = 0;
+    for (let i = col; i < n; i++) norm += A[i][col] ** 2;
+    norm = Math.sqrt(norm);
+    if (norm === 0) return null;
+
+    const alpha = A[col][col] > 0 ? -norm : norm;
+    const v = new Array(n).fill(0);
+    for (let i = col; i < n; i++) v[i] = A[i][col];
+    v[col] -= alpha;
+    let vNorm2 = 0;
+    for (let i = col; i < n; i++) vNorm2 += v[i] ** 2;
+    if (vNorm2 === 0) continue;
+
+    for (let j = col; j < k; j++) {
+      let dot = 0;
+      for (let i = col; i < n; i++) dot += v[i] * A[i][j];
+      const scale = (2 * dot) / vNorm2;
+      for (let i = col; i < n; i++) A[i][j] -= scale * v[i];
+    }
+    let dotB = 0;
+    for (let i = col; i < n; i++) dotB += v[i] * b[i];
+    const scaleB = (2 * dotB) / vNorm2;
+    for (let i = col; i < n; i++) b[i] -= scaleB * v[i];
+  }
+
+  const R = A.slice(0, k).map(row => row.slice(0, k));
+  const maxDiagonal = Math.max(...R.map((row, i) => Math.abs(row[i])));
+  if (R.some((row, i) => Math.abs(row[i]) <= RANK_TOLERANCE * maxDiagonal)) return null;
+
+  const coefficients = backSubstitute(R, b.slice(0, k));
+
+  // (X'WX)^-1 = R^-1 R^-T, built column by column from R^-1
+  const Rinv = Array.from({ length: k }, () => new Array(k).fill(0));
+  for (let j = 0; j < k; j++) {
+    const column = backSubstitute(R, Array.from({ length: k }, (_, i) => (i === j ? 1 : 0)));
+    column.forEach((v, i) => { Rinv[i][j] = v; });
+  }
+  const inverse = Array.from({ length: k }, (_, a) =>
+    Array.from({ length: k }, (_, c) => Rinv[a].reduce((s, v, j) => s + v * Rinv[c][j], 0)));
+
+  const fitted = X.map(row => row.reduce((s, v, j) => s + v * coefficients[j], 0));
+  const residuals = y.map((v, i) => v - fitted[i]);
+  const leverage = X.map((row, i) => {
+    const inverseRow = inverse.map(r => r.reduce((s, v, j) => s + v * row[j], 0));
+    return w[i] * row.reduce((s, v, j) => s + v * inverseRow[j], 0);
+  });
+  const sse = residuals.reduce((s, e, i) => s + w[i] * e * e, 0);
+
+  return {
+    coefficients,
+    inverse,
+    fitted,
+    residuals,
+    leverage,
+    residualVariance: used > k ? sse / (used - k) : 0,
+  };
+};
+
+// Solve a small symmetric positive-definite system A x = b by Cholesky (null if not PD)
+export const choleskySolve = (A: number[][], b: number[]): number[] | null => {
+  const k = b.length;
+  const L = Array.from({ length: k }, () => new Array(k).fill(0));
+  for (let i = 0; i < k; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j];
+      for (let m = 0; m < j; m++) sum -= L[i][m] * L[j][m];
+      if (i === j) {
+        if (sum <= 0) return null;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+
+  // Forward solve L z = b, then back solve L' x = z
+  const z = new Array(k).fill(0);
+  for (let i = 0; i < k; i++) {
+    let sum = b[i];
+    for (let m = 0; m < i; m++) sum -= L[i][m] * z[m];
+    z[i] = sum / L[i][i];
+  }
+  const Lt = L.map((_, i) => L.map(row => row[i]));
+  return backSubstitute(Lt, z);
+};
@@ -0,0 +1,99 @@
+// Small-multiple RD chart for a pre-treatment (balance) variable
+import * as d3 from 'd3';
+import { colors } from '../../../colors';
+import { ScatterDataPoint, FittedLines, FittedPoint } from '../types';
+import { OPACITY } from '../constants';
+
+interface BalancePanelParams {
+  g: d3.Selection<SVGGElement, unknown, null, undefined>;
+  scatterData: ScatterDataPoint[];
+  fittedLines: FittedLines;
+  xScale: d3.ScaleLinear<number, number>;
+  yScale: d3.ScaleLinear<number, number>;
+  innerWidth: number;
+  innerHeight: number;
+}
+
+export const renderBalancePanel = ({
+  g,
+  scatterData,
+  fittedLines,
+  xScale,
+  yScale,
+  innerWidth,
+  innerHeight,
+}: BalancePanelParams): void => {
+  // Side backgrounds, as in the main scatter
+  g.append('rect')
+    .attr('x', xScale(-50))
+    .attr('width', xScale(0) - xScale(-50))
+    .attr('height', innerHeight)
+    .attr('fill', colors.nonmitaLight)
+    .attr('opacity', OPACITY.district * 0.25);
+  g.append('rect')
+    .attr('x', xScale(0))
+    .attr('width', xScale(50) - xScale(0))
+    .attr('height', innerHeight)
+    .attr('fill', colors.mita)
+    .attr('opacity', OPACITY.district * 0.25);
+
+  g.append('g')
+    .attr('transform', `translate(0,${innerHeight})`)
+    .call(d3.axisBottom(xScale).ticks(3).tickFormat(d => String(Math.abs(d as number))));
+  g.append('g')
+    .call(d3.axisLeft(yScale).ticks(4).tickFormat(d3.format('~s')));
+
+  g.selectAll('.balance-dot')
+    .data(scatterData)
+    .join('circle')
+    .attr('class', 'balance-dot')
+    .attr('cx', d => xScale(d.scatterX))
+    .attr('cy', d => yScale(d.scatterY))
+    .attr('r', 3)
+    .attr('fill', d => d.isInside ? colors.mita : colors.nonmitaLight)
+    .attr('opacity', OPACITY.dot);
+
+  const area = d3.area<FittedPoint>()
+    .x(d => xScale(d.x))
+    .y0(d => yScale(d.lower))
+    .y1(d => yScale(d.upper));
+  const line = d3.line<FittedPoint>()
+    .x(d => xScale(d.x))
+    .y(d => yScale(d.y));
+
+  [
+    { points: fittedLines.insideLinePoly, color: colors.mitaStroke },
+    { points: fittedLines.outsideLinePoly, color: colors.nonmita },
+  ].forEach(({ points, color }) => {
+    g.append('path')
+      .datum(points)
+      .attr('d', area)
+      .attr('fill', color)
+      .attr('opacity', 0.25);
+    g.append('path')
+      .datum(points)
+      .attr('d', line)
+      .attr('fill', 'none')
+      .attr('stroke', color)
+      .attr('stroke-width', 2);
+  });
+
+  // Cutoff
+  g.append('line')
+    .attr('x1', xScale(0))
+    .attr('x2', xScale(0))
+    .attr('y1', 0)
+    .attr('y2', innerHeight)
+    .attr('stroke', colors.terracotta)
+    .attr('stroke-width', 1)
+    .attr('stroke-dasharray', '3,3');
+
+  g.append('text')
+    .attr('x', innerWidth / 2)
+    .attr('y', innerHeight + 30)
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.textMuted)
+    .attr('font-size', '10px')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text('Distance (km)');
+};
@@ -0,0 +1,86 @@
+// Binned scatter rendering: dots collapse into bin means with 95% error bars
+import * as d3 from 'd3';
+import { colors } from '../../../colors';
+import { ScatterDataPoint, ScatterBin, Margin } from '../types';
+import { OPACITY } from '../constants';
+
+interface BinsParams {
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+  bins: ScatterBin[]; // Bins of scatterData; empty to remove the bin markers
+  scatterData: ScatterDataPoint[];
+  xScale: d3.ScaleLinear<number, number>;
+  yScale: d3.ScaleLinear<number, number>;
+  margin: Margin;
+  animate: boolean;
+}
+
+const binKey = (d: ScatterBin) => `${d.isInside}-${d.x0}`;
+
+export const renderBins = ({
+  svg,
+  bins,
+  scatterData,
+  xScale,
+  yScale,
+  margin,
+  animate,
+}: BinsParams): void => {
+  const duration = animate ? 800 : 0;
+
+  if (bins.length > 0) {
+    // Move each dot onto its bin mean, leaving a faint trace of the raw data
+    const binOf = new Map<number, ScatterBin>();
+    bins.forEach(bin => bin.members.forEach(i => binOf.set(scatterData[i].ubigeo, bin)));
+
+    svg.selectAll<SVGCircleElement, ScatterDataPoint>('.morph-dot')
+      .data(scatterData, (d: any) => d.ubigeo)
+      .transition().duration(duration)
+      .attr('cx', d => xScale(binOf.get(d.ubigeo)?.x ?? d.scatterX))
+      .attr('cy', d => yScale(binOf.get(d.ubigeo)?.mean ?? d.scatterY))
+      .attr('r', 3)
+      .attr('opacity', OPACITY.dot * 0.2);
+  }
+
+  const markerDelay = animate ? duration : 0;
+
+  svg.selectAll<SVGPathElement, ScatterBin>('.bin-errorbar')
+    .data(bins, binKey)
+    .join(
+      enter => enter.append('path')
+        .attr('class', 'bin-errorbar')
+        .attr('transform', `translate(${margin.left},${margin.top})`)
+        .attr('fill', 'none')
+        .attr('stroke-width', 1.5)
+        .attr('opacity', 0),
+      update => update,
+      exit => exit.remove()
+    )
+    .attr('stroke', d => d.isInside ? colors.mitaStroke : colors.nonmita)
+    .attr('d', d => {
+      const x = xScale(d.x);
+      const [low, high] = [yScale(d.lower), yScale(d.upper)];
+      const cap = 3;
+      return `M${x - cap},${low}L${x + cap},${low}M${x},${low}L${x},${high}M${x - cap},${high}L${x + cap},${high}`;
+    })
+    .transition().delay(markerDelay).duration(animate ? 400 : 0)
+    .attr('opacity', 1);
+
+  svg.selectAll<SVGCircleElement, ScatterBin>('.bin-mean')
+    .data(bins, binKey)
+    .join(
+      enter => enter.append('circle')
+        .attr('class', 'bin-mean')
+        .attr('transform', `translate(${margin.left},${margin.top})`)
+        .attr('stroke', colors.parchment)
+        .attr('stroke-width', 1.5)
+        .attr('opacity', 0),
+      update => update,
+      exit => exit.remove()
+    )
+    .attr('cx', d => xScale(d.x))
+    .attr('cy', d => yScale(d.mean))
+    .attr('r', d => 4 + Math.sqrt(d.count))
+    .attr('fill', d => d.isInside ? colors.mita : colors.nonmitaLight)
+    .transition().delay(markerDelay).duration(animate ? 400 : 0)
+    .attr('opacity', 1);
+};
@@ -0,0 +1,109 @@
+// Running-variable density chart: histogram, local linear density fits and the jump at 0
+import * as d3 from 'd3';
+import { colors } from '../../../colors';
+import { DensityTest, DensityFitPoint } from '../types';
+import { OPACITY } from '../constants';
+
+interface DensityChartParams {
+  g: d3.Selection<SVGGElement, unknown, null, undefined>;
+  test: DensityTest;
+  xScale: d3.ScaleLinear<number, number>; // Same distance axis as the scatter view
+  innerWidth: number;
+  innerHeight: number;
+}
+
+export const renderDensityChart = ({
+  g,
+  test,
+  xScale,
+  innerWidth,
+  innerHeight,
+}: DensityChartParams): void => {
+  const maxDensity = Math.max(
+    ...test.bins.map(b => b.density),
+    ...test.insideFit.map(p => p.density),
+    ...test.outsideFit.map(p => p.density)
+  );
+  const yScale = d3.scaleLinear()
+    .domain([0, maxDensity * 1.1])
+    .range([innerHeight, 0])
+    .nice();
+
+  // Axes (density shown as the share of districts per km)
+  g.append('g')
+    .attr('transform', `translate(0,${innerHeight})`)
+    .call(d3.axisBottom(xScale).ticks(5).tickFormat(d => String(Math.abs(d as number))));
+  g.append('g')
+    .call(d3.axisLeft(yScale).ticks(5).tickFormat(d => `${((d as number) * 100).toFixed(1)}%`));
+
+  g.append('text')
+    .attr('x', innerWidth / 2)
+    .attr('y', innerHeight + 40)
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.textMuted)
+    .attr('font-size', '11px')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text('Distance from mita boundary (km)');
+
+  g.append('text')
+    .attr('transform', `translate(-45,${innerHeight / 2}) rotate(-90)`)
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.textMuted)
+    .attr('font-size', '10px')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text('Share of districts per km');
+
+  // Histogram
+  g.selectAll('.density-bar')
+    .data(test.bins)
+    .join('rect')
+    .attr('class', 'density-bar')
+    .attr('x', d => xScale(d.x0) + 0.5)
+    .attr('width', d => Math.max(xScale(d.x1) - xScale(d.x0) - 1, 0))
+    .attr('y', innerHeight)
+    .attr('height', 0)
+    .attr('fill', d => d.isInside ? colors.mita : colors.nonmitaLight)
+    .attr('opacity', OPACITY.dot * 0.7)
+    .transition().duration(600).delay((_, i) => i * 15)
+    .attr('y', d => yScale(d.density))
+    .attr('height', d => innerHeight - yScale(d.density));
+
+  // Local linear density fits
+  const line = d3.line<DensityFitPoint>()
+    .x(d => xScale(d.x))
+    .y(d => yScale(d.density));
+  [
+    { points: test.insideFit, color: colors.mitaStroke },
+    { points: test.outsideFit, color: colors.nonmita },
+  ].forEach(({ points, color }) => {
+    g.append('path')
+      .datum(points)
+      .attr('class', 'density-fit')
+      .attr('fill', 'none')
+      .attr('stroke', color)
+      .attr('stroke-width', 3)
+      .attr('d', line);
+  });
+
+  // Jump at the cutoff
+  const x0 = xScale(0);
+  const [yInside, yOutside] = [yScale(test.insideDensity), yScale(test.outsideDensity)];
+  g.append('line')
+    .attr('class', 'density-jump')
+    .attr('x1', x0)
+    .attr('x2', x0)
+    .attr('y1', yInside)
+    .attr('y2', yOutside)
+    .attr('stroke', colors.terracotta)
+    .attr('stroke-width', 4);
+
+  const [low, high] = test.confidenceInterval;
+  g.append('text')
+    .attr('x', x0 + 12)
+    .attr('y', Math.min(yInside, yOutside) - 12)
+    .attr('fill', colors.terracottaDark)
+    .attr('font-size', '12px')
+    .attr('font-weight', '600')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text(`log jump ${test.logDifference.toFixed(2)} [${low.toFixed(2)}, ${high.toFixed(2)}]`);
+};
@@ -0,0 +1,118 @@
+// Resampling distribution chart: histogram of permutation or bootstrap draws with the observed estimate
+import * as d3 from 'd3';
+import { colors } from '../../../colors';
+import { InferenceResult } from '../types';
+import { OPACITY } from '../constants';
+
+interface InferenceChartParams {
+  g: d3.Selection<SVGGElement, unknown, null, undefined>;
+  result: InferenceResult;
+  innerWidth: number;
+  innerHeight: number;
+  formatEstimate: (value: number) => string;
+}
+
+const BIN_COUNT = 40;
+
+export const renderNullDistribution = ({
+  g,
+  result,
+  innerWidth,
+  innerHeight,
+  formatEstimate,
+}: InferenceChartParams): void => {
+  const isPermutation = result.method === 'permutation';
+  const [lo, hi] = d3.extent([...result.draws, result.observed, 0]) as [number, number];
+  const pad = (hi - lo) * 0.05 || 1;
+  const xScale = d3.scaleLinear()
+    .domain([lo - pad, hi + pad])
+    .range([0, innerWidth])
+    .nice();
+
+  const bins = d3.bin()
+    .domain(xScale.domain() as [number, number])
+    .thresholds(BIN_COUNT)(result.draws);
+  const yScale = d3.scaleLinear()
+    .domain([0, (d3.max(bins, b => b.length) ?? 1) * 1.1])
+    .range([innerHeight, 0]);
+
+  // Axes
+  g.append('g')
+    .attr('transform', `translate(0,${innerHeight})`)
+    .call(d3.axisBottom(xScale).ticks(6));
+  g.append('g')
+    .call(d3.axisLeft(yScale).ticks(5));
+
+  g.append('text')
+    .attr('x', innerWidth / 2)
+    .attr('y', innerHeight + 40)
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.textMuted)
+    .attr('font-size', '11px')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text(isPermutation ? 'Difference in means with reshuffled mita labels' : 'Bootstrap estimate of the discontinuity');
+
+  g.append('text')
+    .attr('transform', `translate(-45,${innerHeight / 2}) rotate(-90)`)
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.textMuted)
+    .attr('font-size', '10px')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text('Draws');
+
+  // Permutation draws at least as extreme as the observed estimate are highlighted
+  const extreme = (b: d3.Bin<number, number>): boolean =>
+    isPermutation && ((b.x0 ?? 0) >= Math.abs(result.observed) || (b.x1 ?? 0) <= -Math.abs(result.observed));
+
+  g.selectAll('.inference-bar')
+    .data(bins)
+    .join('rect')
+    .attr('class', 'inference-bar')
+    .attr('x', d => xScale(d.x0 ?? 0) + 0.5)
+    .attr('width', d => Math.max(xScale(d.x1 ?? 0) - xScale(d.x0 ?? 0) - 1, 0))
+    .attr('y', d => yScale(d.length))
+    .attr('height', d => innerHeight - yScale(d.length))
+    .attr('fill', d => extreme(d) ? colors.terracottaLight : colors.nonmitaLight)
+    .attr('opacity', OPACITY.dot);
+
+  // Zero, and the 95% range of the draws
+  g.append('line')
+    .attr('class', 'inference-zero')
+    .attr('x1', xScale(0))
+    .attr('x2', xScale(0))
+    .attr('y1', 0)
+    .attr('y2', innerHeight)
+    .attr('stroke', colors.gridLine)
+    .attr('stroke-dasharray', '4,4');
+
+  const [low, high] = result.confidenceInterval;
+  g.append('line')
+    .attr('class', 'inference-interval')
+    .attr('x1', xScale(low))
+    .attr('x2', xScale(high))
+    .attr('y1', innerHeight - 8)
+    .attr('y2', innerHeight - 8)
+    .attr('stroke', colors.textMuted)
+    .attr('stroke-width', 2);
+
+  // Observed estimate
+  const xObserved = xScale(result.observed);
+  g.append('line')
+    .attr('class', 'inference-observed')
+    .attr('x1', xObserved)
+    .attr('x2', xObserved)
+    .attr('y1', 0)
+    .attr('y2', innerHeight)
+    .attr('stroke', colors.terracotta)
+    .attr('stroke-width', 3);
+
+  g.append('text')
+    .attr('x', xObserved + (xObserved > innerWidth * 0.7 ? -8 : 8))
+    .attr('y', 14)
+    .attr('text-anchor', xObserved > innerWidth * 0.7 ? 'end' : 'start')
+    .attr('fill', colors.terracottaDark)
+    .attr('font-size', '12px')
+    .attr('font-weight', '600')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text(`observed ${formatEstimate(result.observed)}`);
+};
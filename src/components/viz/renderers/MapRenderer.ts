@@ -2,8 +2,9 @@
 import * as d3 from 'd3';
 import { geoPath } from 'd3-geo';
 import { colors } from '../../../colors';
-import { MergedDistrictData, HighlightMode } from '../types';
+import { MergedDistrictData, HighlightMode, BoundarySegment, DistrictOutlines } from '../types';
 import { OPACITY } from '../constants';
+import { districtGeometry } from '../topologyUtils';
 
 interface MapRenderParams {
   g: d3.Selection<SVGGElement, unknown, null, undefined>;
@@ -19,7 +20,9 @@ interface MapRenderParams {
   innerHeight: number;
   highlightMode?: HighlightMode;
   boundaryUbigeos?: Set<number>;
+  boundarySegments?: BoundarySegment[];
   onHover?: (district: MergedDistrictData | null, event?: MouseEvent) => void;
+  outlines?: DistrictOutlines | null; // Simplified outlines for the zoom level; full rings otherwise
 }
 
 export const renderMap = ({
@@ -36,7 +39,9 @@ export const renderMap = ({
   innerHeight,
   highlightMode = 'none',
   boundaryUbigeos,
+  boundarySegments,
   onHover,
+  outlines,
 }: MapRenderParams): void => {
   const pathGenerator = geoPath().projection(projection);
   const z = currentZoom;
@@ -72,7 +77,58 @@ export const renderMap = ({
   }
 
   // Draw districts
-  renderDistricts(g, pathGenerator, mergedData, z, polygonOpacity, borderOpacity, showDistricts, highlightMode, boundaryUbigeos, onHover);
+  renderDistricts(g, pathGenerator, mergedData, z, polygonOpacity, borderOpacity, showDistricts, highlightMode, boundaryUbigeos, onHover, outlines);
+
+  // Boundary segments used for segment fixed effects
+  if (boundarySegments) {
+    renderBoundarySegments(g, projection, pathGenerator, boundarySegments, z * polygonOpacity);
+  }
+};
+
+const renderBoundarySegments = (
+  g: d3.Selection<SVGGElement, unknown, null, undefined>,
+  projection: d3.GeoProjection,
+  pathGenerator: d3.GeoPath,
+  boundarySegments: BoundarySegment[],
+  opacity: number
+): void => {
+  // Alternate colors so neighbouring segments are distinguishable
+  g.selectAll('.boundary-segment')
+    .data(boundarySegments)
+    .join('path')
+    .attr('class', 'boundary-segment')
+    .attr('d', d => pathGenerator({
+      type: 'MultiLineString',
+      coordinates: d.paths.map(path => path.map(p => [p[1], p[0]])),
+    }))
+    .attr('fill', 'none')
+    .attr('stroke', d => d.index % 2 === 0 ? colors.terracotta : colors.ochre)
+    .attr('stroke-width', 3)
+    .attr('stroke-linecap', 'round')
+    .attr('pointer-events', 'none')
+    .attr('opacity', opacity);
+
+  // Number each segment at the middle vertex of its longest path
+  g.selectAll('.boundary-segment-label')
+    .data(boundarySegments)
+    .join('text')
+    .attr('class', 'boundary-segment-label')
+    .each(function(d) {
+      const longest = d.paths.reduce((a, b) => (b.length > a.length ? b : a), [] as [number, number][]);
+      const mid = longest[Math.floor(longest.length / 2)];
+      const projected = mid ? projection([mid[1], mid[0]]) : null;
+      d3.select(this)
+        .attr('x', projected ? projected[0] : -100)
+        .attr('y', projected ? projected[1] - 8 : -100);
+    })
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.terracottaDark)
+    .attr('font-size', '10px')
+    .attr('font-weight', '600')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .attr('pointer-events', 'none')
+    .attr('opacity', opacity)
+    .text(d => d.index + 1);
 };
 
 const renderCountryLabels = (
@@ -140,7 +196,8 @@ const renderDistricts = (
   showDistricts: boolean,
   highlightMode: HighlightMode,
   boundaryUbigeos?: Set<number>,
-  onHover?: (district: MergedDistrictData | null, event?: MouseEvent) => void
+  onHover?: (district: MergedDistrictData | null, event?: MouseEvent) => void,
+  outlines?: DistrictOutlines | null
 ): void => {
   // Sort: non-mita first, then mita on top, then highlighted on top
   const sortedData = [...mergedData].sort((a, b) => {
@@ -166,13 +223,7 @@ const renderDistricts = (
     .data(sortedData)
     .join('path')
     .attr('class', 'district-bg')
-    .attr('d', d => {
-      const geoJSON = {
-        type: 'Polygon' as const,
-        coordinates: [d.polygon.map(p => [p[1], p[0]] as [number, number])]
-      };
-      return pathGenerator(geoJSON);
-    })
+    .attr('d', d => pathGenerator(districtGeometry(d, outlines)))
     .attr('fill', d => d.mita === 1 ? colors.mita : colors.nonmitaLight)
     .attr('stroke', d => d.mita === 1 ? colors.mita : colors.nonmitaLight)
     .attr('stroke-width', 1.5)
@@ -183,13 +234,7 @@ const renderDistricts = (
     .data(sortedData)
     .join('path')
     .attr('class', 'district')
-    .attr('d', d => {
-      const geoJSON = {
-        type: 'Polygon' as const,
-        coordinates: [d.polygon.map(p => [p[1], p[0]] as [number, number])]
-      };
-      return pathGenerator(geoJSON);
-    })
+    .attr('d', d => pathGenerator(districtGeometry(d, outlines)))
     .attr('fill', d => d.mita === 1 ? colors.mita : colors.nonmitaLight)
     .attr('stroke', d => {
       // Boundary districts get white stroke emphasis
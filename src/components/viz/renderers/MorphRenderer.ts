@@ -1,9 +1,10 @@
 // Morph transition rendering (districts to dots)
 import * as d3 from 'd3';
 import { colors } from '../../../colors';
-import { ScatterDataPoint, MergedDistrictData, OutcomeType, Margin } from '../types';
+import { ScatterDataPoint, MergedDistrictData, OutcomeType, ScatterPhase, Margin, DistrictOutlines } from '../types';
 import { OPACITY, MORPH_TIMING } from '../constants';
 import { getOutcomeY } from '../dataUtils';
+import { districtGeometry } from '../topologyUtils';
 
 interface MorphParams {
   g: d3.Selection<SVGGElement, unknown, null, undefined>;
@@ -17,13 +18,22 @@ interface MorphParams {
   scatterUbigeos: Set<number>;
   morphT: number; // 0-1 morph progress
   currentOutcome: OutcomeType;
+  scatterPhase: ScatterPhase;
+  dotRadius: (d: ScatterDataPoint) => number; // Resting radius (scaled by weight in weighted fits)
   margin: Margin;
   innerHeight: number;
   isOutcomeTransition: boolean;
   isPhaseTransition: boolean;
   onHover?: (district: MergedDistrictData | null, event?: MouseEvent) => void;
+  outlines?: DistrictOutlines | null; // Simplified outlines for the fading districts
 }
 
+// Donut districts (left out of the fit) are drawn hollow, outlined in their side's color
+const dotFill = (d: ScatterDataPoint): string =>
+  d.isDonut ? colors.parchmentCream : d.isInside ? colors.mita : colors.nonmitaLight;
+const dotStroke = (d: ScatterDataPoint): string =>
+  d.isDonut ? (d.isInside ? colors.mita : colors.nonmita) : 'none';
+
 // Apply easing function for smoother animation
 const easeInOutQuad = (t: number): number => {
   return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
@@ -41,31 +51,47 @@ export const renderMorph = ({
   scatterUbigeos,
   morphT,
   currentOutcome,
+  scatterPhase,
+  dotRadius,
   margin,
   innerHeight,
   isOutcomeTransition,
   isPhaseTransition,
   onHover,
+  outlines,
 }: MorphParams): void => {
+  // In the binned phase the dots sit on their bin means (see renderBins)
+  const isBinned = scatterPhase === 'binned';
   const easedMorphT = easeInOutQuad(morphT);
 
   // Fade out districts without scatter data
   if (morphT < 1) {
-    renderFadingDistricts(g, projection, mergedData, scatterUbigeos, easedMorphT);
+    renderFadingDistricts(g, projection, mergedData, scatterUbigeos, easedMorphT, outlines);
   }
 
   // Handle different morph states
   if (morphT >= 1 && isOutcomeTransition) {
-    renderOutcomeTransition(svg, allScatterData, xScale, yScale, margin, innerHeight, currentOutcome, onHover);
+    renderOutcomeTransition(svg, allScatterData, xScale, yScale, margin, innerHeight, currentOutcome, dotRadius, onHover);
   } else if (morphT >= 1 && isPhaseTransition) {
-    // Dots stay the same during phase transition
-    svg.selectAll<SVGCircleElement, ScatterDataPoint>('.morph-dot')
+    // Dots stay the same during phase transition, except coming back out of their bins
+    const dots = svg.selectAll<SVGCircleElement, ScatterDataPoint>('.morph-dot')
       .data(scatterData, (d: any) => d.ubigeo);
+    if (!isBinned) {
+      dots.transition().duration(800)
+        .attr('cx', d => xScale(d.scatterX))
+        .attr('cy', d => yScale(d.scatterY))
+        .attr('r', dotRadius)
+        .attr('opacity', OPACITY.dot);
+    }
+    dots
+      .attr('fill', dotFill)
+      .attr('stroke', dotStroke)
+      .attr('stroke-width', 1.5);
   } else if (morphT < 1) {
     renderMorphingDistricts(g, projection, scatterData, xScale, yScale, easedMorphT);
-    renderMorphingDots(svg, projection, scatterData, xScale, yScale, margin, morphT, easedMorphT, onHover);
-  } else {
-    renderFullScatterDots(svg, scatterData, xScale, yScale, margin, onHover);
+    renderMorphingDots(svg, projection, scatterData, xScale, yScale, margin, morphT, easedMorphT, dotRadius, onHover);
+  } else if (!isBinned) {
+    renderFullScatterDots(svg, scatterData, xScale, yScale, margin, dotRadius, onHover);
   }
 };
 
@@ -74,7 +100,8 @@ const renderFadingDistricts = (
   projection: d3.GeoProjection,
   mergedData: MergedDistrictData[],
   scatterUbigeos: Set<number>,
-  easedMorphT: number
+  easedMorphT: number,
+  outlines?: DistrictOutlines | null
 ): void => {
   const fadeOpacity = Math.max(0, 0.5 - easedMorphT * 0.8);
   const districtsWithoutData = mergedData.filter(d => !scatterUbigeos.has(d.ubigeo));
@@ -83,13 +110,7 @@ const renderFadingDistricts = (
     .data(districtsWithoutData)
     .join('path')
     .attr('class', 'fading-district')
-    .attr('d', d => {
-      const geoJSON = {
-        type: 'Polygon' as const,
-        coordinates: [d.polygon.map(p => [p[1], p[0]] as [number, number])]
-      };
-      return d3.geoPath().projection(projection)(geoJSON);
-    })
+    .attr('d', d => d3.geoPath().projection(projection)(districtGeometry(d, outlines)))
     .attr('fill', d => d.mita === 1 ? colors.mita : colors.nonmitaLight)
     .attr('stroke', 'none')
     .attr('opacity', fadeOpacity);
@@ -103,6 +124,7 @@ const renderOutcomeTransition = (
   margin: Margin,
   innerHeight: number,
   currentOutcome: OutcomeType,
+  dotRadius: (d: ScatterDataPoint) => number,
   onHover?: (district: MergedDistrictData | null, event?: MouseEvent) => void
 ): void => {
   svg.selectAll<SVGCircleElement, ScatterDataPoint>('.morph-dot')
@@ -116,29 +138,34 @@ const renderOutcomeTransition = (
           const yVal = getOutcomeY(d, currentOutcome);
           return yVal !== null ? yScale(yVal) : innerHeight / 2;
         })
-        .attr('r', 5)
-        .attr('fill', d => d.isInside ? colors.mita : colors.nonmitaLight)
+        .attr('r', dotRadius)
+        .attr('fill', dotFill)
+        .attr('stroke', dotStroke)
+        .attr('stroke-width', 1.5)
         .attr('opacity', 0)
         .style('cursor', 'pointer')
         .on('mousemove', function(event: MouseEvent, d: ScatterDataPoint) {
           if (onHover) onHover(d, event);
-          d3.select(this).attr('r', 7).attr('opacity', 1);
+          d3.select(this).attr('r', dotRadius(d) + 2).attr('opacity', 1);
         })
-        .on('mouseout', function() {
+        .on('mouseout', function(_event: MouseEvent, d: ScatterDataPoint) {
           if (onHover) onHover(null);
-          d3.select(this).attr('r', 5).attr('opacity', OPACITY.dot);
+          d3.select(this).attr('r', dotRadius(d)).attr('opacity', OPACITY.dot);
         })
         .call(enter => enter.transition().duration(600)
           .attr('opacity', d => getOutcomeY(d, currentOutcome) !== null ? OPACITY.dot : 0)),
       update => update
+        .attr('fill', dotFill)
+        .attr('stroke', dotStroke)
+        .attr('stroke-width', 1.5)
         .style('cursor', 'pointer')
         .on('mousemove', function(event: MouseEvent, d: ScatterDataPoint) {
           if (onHover) onHover(d, event);
-          d3.select(this).attr('r', 7).attr('opacity', 1);
+          d3.select(this).attr('r', dotRadius(d) + 2).attr('opacity', 1);
         })
-        .on('mouseout', function() {
+        .on('mouseout', function(_event: MouseEvent, d: ScatterDataPoint) {
           if (onHover) onHover(null);
-          d3.select(this).attr('r', 5).attr('opacity', OPACITY.dot);
+          d3.select(this).attr('r', dotRadius(d)).attr('opacity', OPACITY.dot);
         })
         .call(update => update.transition().duration(600)
           .attr('cy', d => {
@@ -220,12 +247,13 @@ const renderMorphingDots = (
   margin: Margin,
   morphT: number,
   easedMorphT: number,
+  dotRadius: (d: ScatterDataPoint) => number,
   onHover?: (district: MergedDistrictData | null, event?: MouseEvent) => void
 ): void => {
   if (morphT <= MORPH_TIMING.dotFadeStart) return;
 
   const dotOpacity = Math.min(1, (morphT - MORPH_TIMING.dotFadeStart) / (MORPH_TIMING.dotFadeEnd - MORPH_TIMING.dotFadeStart));
-  const dotRadius = 5 * easedMorphT;
+  const radius = (d: ScatterDataPoint) => dotRadius(d) * easedMorphT;
 
   svg.selectAll<SVGCircleElement, ScatterDataPoint>('.morph-dot')
     .data(scatterData, (d: any) => d.ubigeo)
@@ -248,19 +276,21 @@ const renderMorphingDots = (
       const scatterY = yScale(d.scatterY);
       return mapY + (scatterY - mapY) * easedMorphT;
     })
-    .attr('r', dotRadius)
-    .attr('fill', d => d.isInside ? colors.mita : colors.nonmitaLight)
+    .attr('r', radius)
+    .attr('fill', dotFill)
+    .attr('stroke', dotStroke)
+    .attr('stroke-width', 1.5)
     .attr('opacity', dotOpacity * OPACITY.dot)
     .style('cursor', morphT > 0.8 ? 'pointer' : 'default')
     .on('mousemove', function(event: MouseEvent, d: ScatterDataPoint) {
       if (morphT > 0.8 && onHover) {
         onHover(d, event);
-        d3.select(this).attr('r', 7).attr('opacity', 1);
+        d3.select(this).attr('r', dotRadius(d) + 2).attr('opacity', 1);
       }
     })
-    .on('mouseout', function() {
+    .on('mouseout', function(_event: MouseEvent, d: ScatterDataPoint) {
       if (onHover) onHover(null);
-      d3.select(this).attr('r', dotRadius).attr('opacity', dotOpacity * OPACITY.dot);
+      d3.select(this).attr('r', radius(d)).attr('opacity', dotOpacity * OPACITY.dot);
     });
 };
 
@@ -270,6 +300,7 @@ const renderFullScatterDots = (
   xScale: d3.ScaleLinear<number, number>,
   yScale: d3.ScaleLinear<number, number>,
   margin: Margin,
+  dotRadius: (d: ScatterDataPoint) => number,
   onHover?: (district: MergedDistrictData | null, event?: MouseEvent) => void
 ): void => {
   // Remove any stale morph-dot elements first
@@ -285,16 +316,18 @@ const renderFullScatterDots = (
     .attr('transform', `translate(${margin.left},${margin.top})`)
     .attr('cx', d => xScale(d.scatterX))
     .attr('cy', d => yScale(d.scatterY))
-    .attr('r', 5)
-    .attr('fill', d => d.isInside ? colors.mita : colors.nonmitaLight)
+    .attr('r', dotRadius)
+    .attr('fill', dotFill)
+    .attr('stroke', dotStroke)
+    .attr('stroke-width', 1.5)
     .attr('opacity', OPACITY.dot)
     .style('cursor', 'pointer')
     .on('mousemove', function(event: MouseEvent, d: ScatterDataPoint) {
       if (onHover) onHover(d, event);
-      d3.select(this).attr('r', 7).attr('opacity', 1);
+      d3.select(this).attr('r', dotRadius(d) + 2).attr('opacity', 1);
     })
-    .on('mouseout', function() {
+    .on('mouseout', function(_event: MouseEvent, d: ScatterDataPoint) {
       if (onHover) onHover(null);
-      d3.select(this).attr('r', 5).attr('opacity', OPACITY.dot);
+      d3.select(this).attr('r', dotRadius(d)).attr('opacity', OPACITY.dot);
     });
 };
@@ -0,0 +1,129 @@
+// Placebo cutoff chart: discontinuity estimate and 95% CI against cutoff location
+import * as d3 from 'd3';
+import { colors } from '../../../colors';
+import { PlaceboEstimate, OutcomeType } from '../types';
+import { formatEffect } from '../fittedLineUtils';
+import { OUTCOMES } from '../outcomeUtils';
+
+interface PlaceboChartParams {
+  g: d3.Selection<SVGGElement, unknown, null, undefined>;
+  placebos: PlaceboEstimate[];
+  xScale: d3.ScaleLinear<number, number>;
+  innerWidth: number;
+  innerHeight: number;
+  currentOutcome: OutcomeType;
+}
+
+export const renderPlaceboChart = ({
+  g,
+  placebos,
+  xScale,
+  innerWidth,
+  innerHeight,
+  currentOutcome,
+}: PlaceboChartParams): void => {
+  const estimated = placebos.filter(p => p.estimate !== null);
+  const bounds = estimated.flatMap(p => p.estimate!.confidenceInterval);
+  const yScale = d3.scaleLinear()
+    .domain([Math.min(0, ...bounds), Math.max(0, ...bounds)])
+    .range([innerHeight, 0])
+    .nice();
+
+  // Axes
+  g.append('g')
+    .attr('transform', `translate(0,${innerHeight})`)
+    .call(d3.axisBottom(xScale).ticks(5).tickFormat(d => String(Math.abs(d as number))));
+  g.append('g')
+    .call(d3.axisLeft(yScale).ticks(5).tickFormat(d => `${d}${OUTCOMES[currentOutcome].effectAxisSuffix}`));
+
+  g.append('text')
+    .attr('x', innerWidth / 2)
+    .attr('y', innerHeight + 40)
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.textMuted)
+    .attr('font-size', '11px')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text('Cutoff location: distance from mita boundary (km)');
+
+  // No-effect reference line
+  g.append('line')
+    .attr('class', 'placebo-zero')
+    .attr('x1', 0)
+    .attr('x2', innerWidth)
+    .attr('y1', yScale(0))
+    .attr('y2', yScale(0))
+    .attr('stroke', colors.gridLine)
+    .attr('stroke-dasharray', '4,4');
+
+  // True boundary marker
+  g.append('line')
+    .attr('x1', xScale(0))
+    .attr('x2', xScale(0))
+    .attr('y1', 0)
+    .attr('y2', innerHeight)
+    .attr('stroke', colors.terracottaLight)
+    .attr('stroke-width', 1)
+    .attr('opacity', 0.6);
+  g.append('text')
+    .attr('x', xScale(0))
+    .attr('y', -10)
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.terracottaDark)
+    .attr('font-size', '11px')
+    .attr('font-weight', '500')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .attr('letter-spacing', '0.08em')
+    .text('MITA BOUNDARY');
+
+  const pointColor = (p: PlaceboEstimate) => {
+    if (p.isTrueCutoff) return colors.terracotta;
+    return p.cutoff > 0 ? colors.mitaStroke : colors.nonmita;
+  };
+
+  // CI whiskers, then point estimates on top
+  g.selectAll<SVGPathElement, PlaceboEstimate>('.placebo-whisker')
+    .data(estimated, d => d.cutoff)
+    .join('path')
+    .attr('class', 'placebo-whisker')
+    .attr('fill', 'none')
+    .attr('stroke', pointColor)
+    .attr('stroke-width', d => (d.isTrueCutoff ? 2.5 : 1.5))
+    .attr('d', d => {
+      const x = xScale(d.cutoff);
+      const [low, high] = d.estimate!.confidenceInterval.map(v => yScale(v));
+      const cap = 4;
+      return `M${x - cap},${low}L${x + cap},${low}M${x},${low}L${x},${high}M${x - cap},${high}L${x + cap},${high}`;
+    })
+    .attr('opacity', 0)
+    .transition().duration(500).delay((_, i) => i * 40)
+    .attr('opacity', 1);
+
+  g.selectAll<SVGCircleElement, PlaceboEstimate>('.placebo-dot')
+    .data(estimated, d => d.cutoff)
+    .join('circle')
+    .attr('class', 'placebo-dot')
+    .attr('cx', d => xScale(d.cutoff))
+    .attr('cy', d => yScale(d.estimate!.estimate))
+    .attr('r', d => (d.isTrueCutoff ? 7 : 4.5))
+    .attr('fill', pointColor)
+    .attr('stroke', colors.parchment)
+    .attr('stroke-width', 1.5)
+    .attr('opacity', 0)
+    .transition().duration(500).delay((_, i) => i * 40)
+    .attr('opacity', 1);
+
+  // Label the true estimate
+  const truth = estimated.find(p => p.isTrueCutoff);
+  if (truth) {
+    const [low, high] = truth.estimate!.confidenceInterval;
+    g.append('text')
+      .attr('x', xScale(0) + 12)
+      .attr('y', yScale(truth.estimate!.estimate))
+      .attr('dy', '0.35em')
+      .attr('fill', colors.terracottaDark)
+      .attr('font-size', '12px')
+      .attr('font-weight', '600')
+      .attr('font-family', "'JetBrains Mono', monospace")
+      .text(formatEffect(truth.estimate!.estimate, currentOutcome, (high - low) / 2));
+  }
+};
@@ -1,9 +1,10 @@
 // Scatter plot rendering functions
 import * as d3 from 'd3';
 import { colors } from '../../../colors';
-import { ScatterDataPoint, OutcomeType, FittedLines, ScatterPhase, Margin } from '../types';
+import { ScatterDataPoint, OutcomeType, FittedLines, FittedPoint, ScatterPhase, Margin } from '../types';
 import { OPACITY } from '../constants';
 import { formatEffect } from '../fittedLineUtils';
+import { OUTCOMES } from '../outcomeUtils';
 
 interface ScatterBackgroundParams {
   g: d3.Selection<SVGGElement, unknown, null, undefined>;
@@ -111,9 +112,7 @@ export const renderScatterAxes = ({
 
   const yAxisG = g.append('g')
     .attr('opacity', axisOpacity);
-  yAxisG.call(d3.axisLeft(yScale).ticks(5).tickFormat(d =>
-    currentOutcome === 'stunting' ? `${d}%` : String(d)
-  ));
+  yAxisG.call(d3.axisLeft(yScale).ticks(5).tickFormat(d => `${d}${OUTCOMES[currentOutcome].axisSuffix}`));
 
   g.append('text')
     .attr('x', innerWidth / 2)
@@ -180,11 +179,19 @@ export const renderFittedLines = ({
   currentOutcome,
   shouldPreserveElements,
 }: FittedLinesParams): void => {
-  const showOLS = scatterPhase === 'ols' || scatterPhase === 'naive-effect' || scatterPhase === 'effect';
+  // Nothing to fit (e.g. an outcome missing from the data): clear lines kept from the last outcome
+  if (!fittedLines.naiveEstimate) {
+    svg.selectAll('.inside-line, .outside-line, .inside-band, .outside-band, .effect-line, .effect-whisker, .effect-label-rect, .effect-label-text')
+      .remove();
+    return;
+  }
+
+  const linePhases = ['ols', 'naive-effect', 'effect', 'binned'];
+  const showOLS = linePhases.includes(scatterPhase);
   const showEffect = scatterPhase === 'naive-effect' || scatterPhase === 'effect';
-  const usePolynomial = scatterPhase === 'effect';
+  const usePolynomial = scatterPhase === 'effect' || scatterPhase === 'binned';
 
-  const prevShowedOLS = prevScatterPhase === 'ols' || prevScatterPhase === 'naive-effect' || prevScatterPhase === 'effect';
+  const prevShowedOLS = linePhases.includes(prevScatterPhase);
   const prevShowedEffect = prevScatterPhase === 'naive-effect' || prevScatterPhase === 'effect';
   const animateOLS = showOLS && !prevShowedOLS;
   const animateEffect = showEffect && !prevShowedEffect;
@@ -193,13 +200,17 @@ export const renderFittedLines = ({
   const outsideLine = usePolynomial ? fittedLines.outsideLinePoly : fittedLines.outsideLineLinear;
 
   if (showOLS) {
+    renderConfidenceBands(svg, insideLine, outsideLine, xScale, yScale, margin, animateOLS);
     renderOLSLines(svg, insideLine, outsideLine, xScale, yScale, margin, animateOLS);
   }
 
   if (showEffect) {
-    const discontinuity = scatterPhase === 'effect'
-      ? fittedLines.paperDiscontinuity
-      : fittedLines.naiveDiscontinuity;
+    // Without a local fit (e.g. too few districts on a side) the label says so rather than
+    // passing the naive jump off as the RD estimate
+    const estimate = scatterPhase === 'effect' ? fittedLines.rdEstimate : fittedLines.naiveEstimate;
+    const discontinuity = !estimate
+      ? null
+      : scatterPhase === 'effect' ? fittedLines.rdDiscontinuity : fittedLines.naiveDiscontinuity;
 
     renderEffectAnnotation(
       svg,
@@ -209,6 +220,7 @@ export const renderFittedLines = ({
       yScale,
       margin,
       discontinuity,
+      estimate?.confidenceInterval ?? null,
       currentOutcome,
       animateEffect,
       shouldPreserveElements
@@ -216,10 +228,51 @@ export const renderFittedLines = ({
   }
 };
 
+// Shaded pointwise 95% bands, drawn beneath the fitted lines
+const renderConfidenceBands = (
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  insideLine: FittedPoint[],
+  outsideLine: FittedPoint[],
+  xScale: d3.ScaleLinear<number, number>,
+  yScale: d3.ScaleLinear<number, number>,
+  margin: Margin,
+  animate: boolean
+): void => {
+  const areaGenerator = d3.area<FittedPoint>()
+    .x(d => xScale(d.x))
+    .y0(d => yScale(d.lower))
+    .y1(d => yScale(d.upper))
+    .curve(d3.curveLinear);
+
+  const bands = [
+    { className: 'inside-band', points: insideLine, fill: colors.mitaStroke },
+    { className: 'outside-band', points: outsideLine, fill: colors.nonmitaLight },
+  ];
+
+  bands.forEach(({ className, points, fill }) => {
+    svg.selectAll<SVGPathElement, FittedPoint[]>(`.${className}`)
+      .data([points])
+      .join(
+        enter => enter.insert('path', '.inside-line')
+          .attr('class', className)
+          .attr('transform', `translate(${margin.left},${margin.top})`)
+          .attr('fill', fill)
+          .attr('stroke', 'none')
+          .attr('pointer-events', 'none')
+          .attr('d', areaGenerator)
+          .attr('opacity', animate ? 0 : 0.25)
+          .call(enter => animate ? enter.transition().duration(500).attr('opacity', 0.25) : enter),
+        update => update
+          .transition().duration(800)
+          .attr('d', areaGenerator)
+      );
+  });
+};
+
 const renderOLSLines = (
   svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
-  insideLine: { x: number; y: number }[],
-  outsideLine: { x: number; y: number }[],
+  insideLine: FittedPoint[],
+  outsideLine: FittedPoint[],
   xScale: d3.ScaleLinear<number, number>,
   yScale: d3.ScaleLinear<number, number>,
   margin: Margin,
@@ -311,12 +364,13 @@ const renderOLSLines = (
 
 const renderEffectAnnotation = (
   svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
-  insideLine: { x: number; y: number }[],
-  outsideLine: { x: number; y: number }[],
+  insideLine: FittedPoint[],
+  outsideLine: FittedPoint[],
   xScale: d3.ScaleLinear<number, number>,
   yScale: d3.ScaleLinear<number, number>,
   margin: Margin,
-  discontinuity: number,
+  discontinuity: number | null,
+  confidenceInterval: [number, number] | null,
   currentOutcome: OutcomeType,
   animate: boolean,
   shouldPreserveElements: boolean
@@ -350,7 +404,33 @@ const renderEffectAnnotation = (
           : update.attr('y1', d => d[0]).attr('y2', d => d[1]))
     );
 
-  const labelText = formatEffect(discontinuity, currentOutcome);
+  // CI whisker for the jump, measured up from the outside line's limit
+  const whiskerX = xPos + 6;
+  const whiskerData = confidenceInterval
+    ? [[yScale(outsideY0 + confidenceInterval[0]), yScale(outsideY0 + confidenceInterval[1])]]
+    : [];
+
+  svg.selectAll<SVGPathElement, number[]>('.effect-whisker')
+    .data(whiskerData)
+    .join(
+      enter => enter.append('path')
+        .attr('class', 'effect-whisker')
+        .attr('transform', `translate(${margin.left},${margin.top})`)
+        .attr('fill', 'none')
+        .attr('stroke', colors.terracottaLight)
+        .attr('stroke-width', 1.5)
+        .attr('d', d => whiskerPath(whiskerX, d[0], d[1]))
+        .attr('opacity', animate ? 0 : 1)
+        .call(enter => animate ? enter.transition().duration(500).delay(350).attr('opacity', 1) : enter),
+      update => update
+        .call(update => shouldPreserveElements
+          ? update.transition().duration(600).attr('d', d => whiskerPath(whiskerX, d[0], d[1]))
+          : update.attr('d', d => whiskerPath(whiskerX, d[0], d[1]))),
+      exit => exit.remove()
+    );
+
+  const margin95 = confidenceInterval ? (confidenceInterval[1] - confidenceInterval[0]) / 2 : undefined;
+  const labelText = discontinuity === null ? 'RD not estimable' : formatEffect(discontinuity, currentOutcome, margin95);
   const labelX = xPos + 20;
   const labelY = (y1 + y2) / 2;
 
@@ -403,3 +483,9 @@ const renderEffectAnnotation = (
           : update.attr('y', d => d))
     );
 };
+
+// Vertical whisker with end caps
+const whiskerPath = (x: number, y1: number, y2: number): string => {
+  const cap = 3;
+  return `M${x - cap},${y1}L${x + cap},${y1}M${x},${y1}L${x},${y2}M${x - cap},${y2}L${x + cap},${y2}`;
+};
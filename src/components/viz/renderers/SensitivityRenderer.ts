@@ -0,0 +1,141 @@
+// Bandwidth sensitivity chart: discontinuity estimate and 95% CI against bandwidth
+import * as d3 from 'd3';
+import { colors } from '../../../colors';
+import { BandwidthEstimate, OutcomeType } from '../types';
+import { formatEffect } from '../fittedLineUtils';
+import { OUTCOMES } from '../outcomeUtils';
+
+interface SensitivityChartParams {
+  g: d3.Selection<SVGGElement, unknown, null, undefined>;
+  results: BandwidthEstimate[];
+  optimalBandwidth: number | null; // MSE-optimal bandwidth, marked on the chart
+  windowWidth: number; // Half-width of the scatter x axis (km)
+  innerWidth: number;
+  innerHeight: number;
+  currentOutcome: OutcomeType;
+}
+
+interface EstimatedBandwidth {
+  bandwidth: number;
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+export const renderSensitivityChart = ({
+  g,
+  results,
+  optimalBandwidth,
+  windowWidth,
+  innerWidth,
+  innerHeight,
+  currentOutcome,
+}: SensitivityChartParams): void => {
+  const estimated: EstimatedBandwidth[] = results
+    .filter(r => r.estimate !== null)
+    .map(r => ({
+      bandwidth: r.bandwidth,
+      estimate: r.estimate!.estimate,
+      lower: r.estimate!.confidenceInterval[0],
+      upper: r.estimate!.confidenceInterval[1],
+    }));
+  if (estimated.length === 0) return;
+
+  const xScale = d3.scaleLinear()
+    .domain([0, d3.max(estimated, d => d.bandwidth) as number])
+    .range([0, innerWidth]);
+  const yScale = d3.scaleLinear()
+    .domain([
+      Math.min(0, d3.min(estimated, d => d.lower) as number),
+      Math.max(0, d3.max(estimated, d => d.upper) as number),
+    ])
+    .range([innerHeight, 0])
+    .nice();
+
+  // Axes
+  g.append('g')
+    .attr('transform', `translate(0,${innerHeight})`)
+    .call(d3.axisBottom(xScale).ticks(5));
+  g.append('g')
+    .call(d3.axisLeft(yScale).ticks(5).tickFormat(d => `${d}${OUTCOMES[currentOutcome].effectAxisSuffix}`));
+
+  g.append('text')
+    .attr('x', innerWidth / 2)
+    .attr('y', innerHeight + 40)
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.textMuted)
+    .attr('font-size', '11px')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text('Bandwidth: km on each side of the boundary');
+
+  // No-effect reference line
+  g.append('line')
+    .attr('x1', 0)
+    .attr('x2', innerWidth)
+    .attr('y1', yScale(0))
+    .attr('y2', yScale(0))
+    .attr('stroke', colors.gridLine)
+    .attr('stroke-dasharray', '4,4');
+
+  // Edge of the scatter window: wider bandwidths only reweight the same districts
+  const markers = [
+    { x: windowWidth, label: `${windowWidth} KM WINDOW`, color: colors.textMuted },
+    ...(optimalBandwidth !== null
+      ? [{ x: optimalBandwidth, label: 'MSE-OPTIMAL', color: colors.terracottaDark }]
+      : []),
+  ];
+  markers.forEach(({ x, label, color }) => {
+    g.append('line')
+      .attr('x1', xScale(x))
+      .attr('x2', xScale(x))
+      .attr('y1', 0)
+      .attr('y2', innerHeight)
+      .attr('stroke', color)
+      .attr('stroke-width', 1)
+      .attr('stroke-dasharray', '2,3')
+      .attr('opacity', 0.7);
+    g.append('text')
+      .attr('x', xScale(x))
+      .attr('y', -10)
+      .attr('text-anchor', 'middle')
+      .attr('fill', color)
+      .attr('font-size', '10px')
+      .attr('font-family', "'JetBrains Mono', monospace")
+      .attr('letter-spacing', '0.08em')
+      .text(label);
+  });
+
+  // CI band and estimate line
+  g.append('path')
+    .datum(estimated)
+    .attr('class', 'sensitivity-band')
+    .attr('fill', colors.terracottaLight)
+    .attr('opacity', 0.3)
+    .attr('d', d3.area<EstimatedBandwidth>()
+      .x(d => xScale(d.bandwidth))
+      .y0(d => yScale(d.lower))
+      .y1(d => yScale(d.upper)));
+
+  g.append('path')
+    .datum(estimated)
+    .attr('class', 'sensitivity-line')
+    .attr('fill', 'none')
+    .attr('stroke', colors.terracotta)
+    .attr('stroke-width', 2.5)
+    .attr('d', d3.line<EstimatedBandwidth>()
+      .x(d => xScale(d.bandwidth))
+      .y(d => yScale(d.estimate)));
+
+  g.selectAll('.sensitivity-dot')
+    .data(estimated)
+    .join('circle')
+    .attr('class', 'sensitivity-dot')
+    .attr('cx', d => xScale(d.bandwidth))
+    .attr('cy', d => yScale(d.estimate))
+    .attr('r', 3.5)
+    .attr('fill', colors.terracotta)
+    .attr('stroke', colors.parchment)
+    .attr('stroke-width', 1)
+    .append('title')
+    .text(d => `${d.bandwidth} km: ${formatEffect(d.estimate, currentOutcome, (d.upper - d.lower) / 2)}`);
+};
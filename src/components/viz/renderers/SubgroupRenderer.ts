@@ -0,0 +1,211 @@
+// Heterogeneity charts: coefficient plot of subgroup estimates and a map shaded by department
+import * as d3 from 'd3';
+import { geoPath } from 'd3-geo';
+import { colors } from '../../../colors';
+import { MergedDistrictData, SubgroupEstimate, RDEstimate } from '../types';
+import { BOUNDARY_LINES } from '../boundaryUtils';
+import { departmentName } from '../geographyUtils';
+import { OPACITY } from '../constants';
+import { districtGeometry } from '../topologyUtils';
+
+interface CoefficientPlotParams {
+  g: d3.Selection<SVGGElement, unknown, null, undefined>;
+  subgroups: SubgroupEstimate[];
+  pooled: RDEstimate | null;
+  innerWidth: number;
+  innerHeight: number;
+  formatEstimate: (value: number) => string;
+}
+
+// Diverging fill shared by the coefficient dots and the map
+const createEffectColor = (subgroups: SubgroupEstimate[]): d3.ScaleDiverging<string> => {
+  const maxAbs = d3.max(subgroups, s => (s.estimate ? Math.abs(s.estimate.estimate) : 0)) || 1;
+  return d3.scaleDiverging(d3.interpolateRgbBasis([colors.copper, colors.parchmentCream, colors.terracotta]))
+    .domain([-maxAbs, 0, maxAbs]);
+};
+
+export const renderCoefficientPlot = ({
+  g,
+  subgroups,
+  pooled,
+  innerWidth,
+  innerHeight,
+  formatEstimate,
+}: CoefficientPlotParams): void => {
+  const labelWidth = 150;
+  const estimated = subgroups.filter(s => s.estimate !== null).map(s => s.estimate as RDEstimate);
+  const bounds = [
+    0,
+    ...estimated.flatMap(e => e.confidenceInterval),
+    ...(pooled ? pooled.confidenceInterval : []),
+  ];
+  const xScale = d3.scaleLinear()
+    .domain(d3.extent(bounds) as [number, number])
+    .range([labelWidth, innerWidth])
+    .nice();
+  const yScale = d3.scaleBand<number>()
+    .domain(subgroups.map(s => s.group))
+    .range([0, innerHeight])
+    .padding(0.3);
+  const fill = createEffectColor(subgroups);
+
+  g.append('g')
+    .attr('transform', `translate(0,${innerHeight})`)
+    .call(d3.axisBottom(xScale).ticks(5));
+
+  // Zero and the pooled estimate for reference
+  g.append('line')
+    .attr('x1', xScale(0))
+    .attr('x2', xScale(0))
+    .attr('y1', 0)
+    .attr('y2', innerHeight)
+    .attr('stroke', colors.gridLine)
+    .attr('stroke-dasharray', '4,4');
+
+  if (pooled) {
+    g.append('rect')
+      .attr('class', 'pooled-interval')
+      .attr('x', xScale(pooled.confidenceInterval[0]))
+      .attr('width', xScale(pooled.confidenceInterval[1]) - xScale(pooled.confidenceInterval[0]))
+      .attr('height', innerHeight)
+      .attr('fill', colors.terracottaLight)
+      .attr('opacity', 0.15);
+    g.append('line')
+      .attr('class', 'pooled-estimate')
+      .attr('x1', xScale(pooled.estimate))
+      .attr('x2', xScale(pooled.estimate))
+      .attr('y1', 0)
+      .attr('y2', innerHeight)
+      .attr('stroke', colors.terracotta)
+      .attr('stroke-width', 1.5);
+    g.append('text')
+      .attr('x', xScale(pooled.estimate) + 4)
+      .attr('y', -6)
+      .attr('fill', colors.terracottaDark)
+      .attr('font-size', '10px')
+      .attr('font-family', "'JetBrains Mono', monospace")
+      .text(`pooled ${formatEstimate(pooled.estimate)}`);
+  }
+
+  const rows = g.selectAll('.subgroup-row')
+    .data(subgroups)
+    .join('g')
+    .attr('class', 'subgroup-row')
+    .attr('transform', d => `translate(0,${(yScale(d.group) ?? 0) + yScale.bandwidth() / 2})`);
+
+  rows.append('text')
+    .attr('x', 0)
+    .attr('dy', '0.35em')
+    .attr('fill', colors.textBody)
+    .attr('font-size', '11px')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .text(d => `${d.label} (${d.nInside}/${d.nOutside})`);
+
+  rows.filter(d => d.estimate !== null)
+    .append('line')
+    .attr('x1', d => xScale(d.estimate!.confidenceInterval[0]))
+    .attr('x2', d => xScale(d.estimate!.confidenceInterval[1]))
+    .attr('stroke', colors.textMuted)
+    .attr('stroke-width', 2);
+
+  rows.filter(d => d.estimate !== null)
+    .append('circle')
+    .attr('cx', d => xScale(d.estimate!.estimate))
+    .attr('r', 6)
+    .attr('fill', d => fill(d.estimate!.estimate))
+    .attr('stroke', colors.textDark)
+    .attr('stroke-width', 1);
+
+  // Departments that do not straddle the boundary have no local estimate
+  rows.filter(d => d.estimate === null)
+    .append('text')
+    .attr('x', labelWidth)
+    .attr('dy', '0.35em')
+    .attr('fill', colors.textMuted)
+    .attr('font-size', '10px')
+    .attr('font-style', 'italic')
+    .text(d => d.nInside === 0 || d.nOutside === 0
+      ? `all districts ${d.nInside === 0 ? 'outside' : 'inside'} the mita`
+      : 'too few districts near the boundary');
+};
+
+interface DepartmentMapParams {
+  g: d3.Selection<SVGGElement, unknown, null, undefined>;
+  projection: d3.GeoProjection;
+  mergedData: MergedDistrictData[];
+  subgroups: SubgroupEstimate[]; // Grouped by department
+  formatEstimate: (value: number) => string;
+}
+
+export const renderDepartmentMap = ({
+  g,
+  projection,
+  mergedData,
+  subgroups,
+  formatEstimate,
+}: DepartmentMapParams): void => {
+  const pathGenerator = geoPath().projection(projection);
+  const byDepartment = new Map(subgroups.map(s => [s.group, s]));
+  const fill = createEffectColor(subgroups);
+  const departmentFill = (department: number): string => {
+    const estimate = byDepartment.get(department)?.estimate;
+    return estimate ? fill(estimate.estimate) : colors.parchmentDark;
+  };
+
+  // Districts take their department's color, with matching strokes so departments read as one shape
+  g.selectAll('.department-district')
+    .data(mergedData)
+    .join('path')
+    .attr('class', 'department-district')
+    .attr('d', d => pathGenerator(districtGeometry(d)))
+    .attr('fill', d => departmentFill(d.department))
+    .attr('stroke', d => departmentFill(d.department))
+    .attr('stroke-width', 0.5)
+    .attr('opacity', OPACITY.district);
+
+  g.append('path')
+    .attr('class', 'department-boundary')
+    .attr('d', pathGenerator({
+      type: 'MultiLineString',
+      coordinates: BOUNDARY_LINES.map(line => line.map(p => [p[1], p[0]])),
+    }))
+    .attr('fill', 'none')
+    .attr('stroke', colors.textDark)
+    .attr('stroke-width', 1.5)
+    .attr('pointer-events', 'none');
+
+  // Label each department at the mean of its district centroids
+  const labels = d3.groups(mergedData, d => d.department).map(([department, districts]) => {
+    const projected = projection([
+      d3.mean(districts, d => d.centroidLon) as number,
+      d3.mean(districts, d => d.centroidLat) as number,
+    ]);
+    const estimate = byDepartment.get(department)?.estimate;
+    return {
+      department,
+      x: projected ? projected[0] : -100,
+      y: projected ? projected[1] : -100,
+      name: departmentName(department),
+      value: estimate ? formatEstimate(estimate.estimate) : 'n/a',
+    };
+  });
+
+  const label = g.selectAll('.department-label')
+    .data(labels)
+    .join('text')
+    .attr('class', 'department-label')
+    .attr('x', d => d.x)
+    .attr('y', d => d.y)
+    .attr('text-anchor', 'middle')
+    .attr('fill', colors.textDark)
+    .attr('font-size', '11px')
+    .attr('font-family', "'JetBrains Mono', monospace")
+    .attr('pointer-events', 'none');
+  label.append('tspan')
+    .attr('font-weight', '600')
+    .text(d => d.name);
+  label.append('tspan')
+    .attr('x', d => d.x)
+    .attr('dy', '1.2em')
+    .text(d => d.value);
+};
@@ -0,0 +1,100 @@
+// Geographic RD map layer: fitted lat/lon surface on the districts and the jump along the boundary
+import * as d3 from 'd3';
+import { geoPath } from 'd3-geo';
+import { colors } from '../../../colors';
+import { MergedDistrictData, BoundaryJump } from '../types';
+import { BOUNDARY_LINES } from '../boundaryUtils';
+import { OPACITY } from '../constants';
+import { districtGeometry } from '../topologyUtils';
+
+interface SurfaceRenderParams {
+  g: d3.Selection<SVGGElement, unknown, null, undefined>;
+  projection: d3.GeoProjection;
+  mergedData: MergedDistrictData[];
+  surface: Map<number, number>; // Fitted value by ubigeo, on the district's own side
+  boundaryJumps: BoundaryJump[];
+  innerWidth: number;
+  innerHeight: number;
+}
+
+export const renderFittedSurface = ({
+  g,
+  projection,
+  mergedData,
+  surface,
+  boundaryJumps,
+  innerWidth,
+  innerHeight,
+}: SurfaceRenderParams): void => {
+  const pathGenerator = geoPath().projection(projection);
+  const fitted = Array.from(surface.values());
+  const [lo, hi] = d3.extent(fitted) as [number, number];
+  const fill = d3.scaleSequential(d3.interpolateRgb(colors.parchmentCream, colors.terracottaDark))
+    .domain(lo === undefined || lo === hi ? [0, 1] : [lo, hi]);
+
+  // Districts: fitted surface where there is data, faint outline elsewhere
+  g.selectAll('.surface-district')
+    .data(mergedData)
+    .join('path')
+    .attr('class', 'surface-district')
+    .attr('d', d => pathGenerator(districtGeometry(d)))
+    .attr('fill', d => {
+      const value = surface.get(d.ubigeo);
+      return value === undefined ? colors.parchmentDark : fill(value);
+    })
+    .attr('stroke', d => d.mita === 1 ? colors.mitaStroke : colors.nonmita)
+    .attr('stroke-width', 0.4)
+    .attr('opacity', d => surface.has(d.ubigeo) ? OPACITY.district : OPACITY.mapFade);
+
+  // Mita boundary
+  g.append('path')
+    .attr('class', 'surface-boundary')
+    .attr('d', pathGenerator({
+      type: 'MultiLineString',
+      coordinates: BOUNDARY_LINES.map(line => line.map(p => [p[1], p[0]])),
+    }))
+    .attr('fill', 'none')
+    .attr('stroke', colors.textDark)
+    .attr('stroke-width', 1.5)
+    .attr('pointer-events', 'none');
+
+  // Implied jump at sampled boundary points: color by sign and size, ring where the CI excludes 0
+  const maxJump = d3.max(boundaryJumps, d => Math.abs(d.jump)) || 1;
+  const jumpColor = d3.scaleDiverging(d3.interpolateRgbBasis([colors.copper, colors.parchmentCream, colors.terracotta]))
+    .domain([-maxJump, 0, maxJump]);
+
+  g.selectAll('.boundary-jump')
+    .data(boundaryJumps)
+    .join('circle')
+    .attr('class', 'boundary-jump')
+    .attr('cx', d => projection([d.lon, d.lat])?.[0] ?? -100)
+    .attr('cy', d => projection([d.lon, d.lat])?.[1] ?? -100)
+    .attr('r', 5)
+    .attr('fill', d => jumpColor(d.jump))
+    .attr('stroke', d => d.lower > 0 || d.upper < 0 ? colors.textDark : colors.nonmita)
+    .attr('stroke-width', d => d.lower > 0 || d.upper < 0 ? 2 : 0.75);
+
+  // Legend for the fitted surface
+  const legendWidth = 160;
+  const legend = g.append('g')
+    .attr('class', 'surface-legend')
+    .attr('transform', `translate(${innerWidth - legendWidth},${innerHeight - 24})`);
+  const gradientId = 'surface-gradient';
+  const gradient = legend.append('defs').append('linearGradient').attr('id', gradientId);
+  gradient.append('stop').attr('offset', '0%').attr('stop-color', fill(fill.domain()[0]));
+  gradient.append('stop').attr('offset', '100%').attr('stop-color', fill(fill.domain()[1]));
+  legend.append('rect')
+    .attr('width', legendWidth)
+    .attr('height', 8)
+    .attr('fill', `url(#${gradientId})`);
+  legend.selectAll('.surface-legend-label')
+    .data(fill.domain())
+    .join('text')
+    .attr('class', 'surface-legend-label')
+    .attr('x', (_, i) => i * legendWidth)
+    .attr('y', 20)
+    .attr('text-anchor', (_, i) => i === 0 ? 'start' : 'end')
+    .attr('fill', colors.textMuted)
+    .attr('font-size', '10px')
+    .text(d => d3.format('.3~r')(d));
+};
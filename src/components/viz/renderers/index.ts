@@ -8,3 +8,11 @@ export {
   renderFittedLines,
 } from './ScatterRenderer';
 export { renderMorph } from './MorphRenderer';
+export { renderPlaceboChart } from './PlaceboRenderer';
+export { renderBalancePanel } from './BalanceRenderer';
+export { renderSensitivityChart } from './SensitivityRenderer';
+export { renderBins } from './BinnedRenderer';
+export { renderDensityChart } from './DensityRenderer';
+export { renderFittedSurface } from './SurfaceRenderer';
+export { renderNullDistribution } from './InferenceRenderer';
+export { renderCoefficientPlot, renderDepartmentMap } from './SubgroupRenderer';
@@ -0,0 +1,48 @@
+/**
+ * Tests for the replication check against Dell (2010)
+ */
+import { runReplication, classifyReplication } from './replicationUtils';
+import { publishedCoefficient } from './outcomeUtils';
+import { GeographicRDEstimate } from './types';
+
+const estimateAt = (estimate: number, confidenceInterval: [number, number]) =>
+  ({ estimate, confidenceInterval } as GeographicRDEstimate);
+
+describe('replicationUtils', () => {
+  it('converts the published stunting coefficient to percentage points', () => {
+    expect(publishedCoefficient('stunting')).toBeCloseTo(6);
+    expect(publishedCoefficient('consumption')).toBe(-0.25);
+    expect(publishedCoefficient('roads')).toBe(-36);
+  });
+
+  it('classifies an estimate against the published value', () => {
+    expect(classifyReplication(estimateAt(-0.24, [-0.5, 0]), -0.25, 0.05)).toBe('match');
+    expect(classifyReplication(estimateAt(-0.1, [-0.5, 0]), -0.25, 0.05)).toBe('consistent');
+    expect(classifyReplication(estimateAt(0.3, [0.1, 0.5]), -0.25, 0.05)).toBe('mismatch');
+    expect(classifyReplication(null, -0.25, 0.05)).toBe('mismatch');
+  });
+
+  describe('on the bundled data', () => {
+    const results = runReplication();
+    const byOutcome = Object.fromEntries(results.map(r => [r.outcome, r]));
+
+    it('estimates every published outcome', () => {
+      expect(results.map(r => r.outcome)).toEqual(['consumption', 'stunting', 'roads']);
+      results.forEach(r => expect(r.estimate).not.toBeNull());
+    });
+
+    it('reproduces the consumption and roads coefficients', () => {
+      expect(byOutcome.consumption.status).toBe('match');
+      expect(Math.abs(byOutcome.consumption.difference!)).toBeLessThanOrEqual(byOutcome.consumption.tolerance);
+      expect(byOutcome.roads.status).toBe('match');
+      expect(Math.abs(byOutcome.roads.difference!)).toBeLessThanOrEqual(byOutcome.roads.tolerance);
+    });
+
+    // Dell estimates stunting on child-level data with individual controls; district averages
+    // do not recover it. If this starts failing, the data or estimator changed: update the story.
+    it('does not reproduce the stunting coefficient from district averages', () => {
+      expect(byOutcome.stunting.status).toBe('mismatch');
+      expect(byOutcome.stunting.estimate!.confidenceInterval[1]).toBeLessThan(byOutcome.stunting.published);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+// Replication check: Dell's baseline specification on the bundled data vs the published coefficients
+import { MergedDistrictData, OutcomeType, GeographicRDEstimate, ReplicationResult, ReplicationStatus } from './types';
+import { REPLICATION_SPECIFICATION, REPLICATION_TOLERANCE } from './constants';
+import { OUTCOME_IDS, publishedCoefficient } from './outcomeUtils';
+import { mergeData, filterScatterData } from './dataUtils';
+import { toRDPoints } from './fittedLineUtils';
+import { estimateGeographicRD, toGeoRDPoints } from './geoRdUtils';
+
+export const classifyReplication = (
+  estimate: GeographicRDEstimate | null,
+  published: number,
+  tolerance: number
+): ReplicationStatus => {
+  if (!estimate) return 'mismatch';
+  if (Math.abs(estimate.estimate - published) <= tolerance) return 'match';
+  const [low, high] = estimate.confidenceInterval;
+  return published >= low && published <= high ? 'consistent' : 'mismatch';
+};
+
+export const replicateOutcome = (
+  mergedData: MergedDistrictData[],
+  outcome: OutcomeType,
+  published: number
+): ReplicationResult => {
+  const points = toGeoRDPoints(toRDPoints(filterScatterData(mergedData, outcome)));
+  const estimate = estimateGeographicRD(points, REPLICATION_SPECIFICATION);
+  const tolerance = Math.abs(published) * REPLICATION_TOLERANCE;
+  return {
+    outcome,
+    published,
+    estimate,
+    difference: estimate ? estimate.estimate - published : null,
+    tolerance,
+    status: classifyReplication(estimate, published, tolerance),
+  };
+};
+
+// Every published outcome, estimated on the bundled data
+export const runReplication = (mergedData: MergedDistrictData[] = mergeData()): ReplicationResult[] =>
+  OUTCOME_IDS.flatMap(outcome => {
+    const published = publishedCoefficient(outcome);
+    return published === null ? [] : [replicateOutcome(mergedData, outcome, published)];
+  });
@@ -2,6 +2,8 @@
 import * as d3 from 'd3';
 import { geoMercator } from 'd3-geo';
 import { MergedDistrictData, ScatterDataPoint, OutcomeType, Dimensions, Margin } from './types';
+import { DOT_RADIUS } from './constants';
+import { OUTCOMES, OUTCOME_IDS } from './outcomeUtils';
 
 interface ProjectionParams {
   mergedData: MergedDistrictData[];
@@ -65,40 +67,54 @@ export const createXScale = (innerWidth: number): d3.ScaleLinear<number, number>
   return d3.scaleLinear().domain([-50, 50]).range([0, innerWidth]);
 };
 
+// Y scale padded 5% around the data (for any numeric district field); [0, 1] without data
+export const createDataYScale = (
+  values: number[],
+  innerHeight: number
+): d3.ScaleLinear<number, number> => {
+  if (values.length === 0) return d3.scaleLinear().domain([0, 1]).range([innerHeight, 0]);
+  return d3.scaleLinear()
+    .domain([
+      Math.floor(Math.min(...values) * 0.95),
+      Math.ceil(Math.max(...values) * 1.05)
+    ])
+    .range([innerHeight, 0]);
+};
+
 // Create Y scales for all outcomes
 export const createYScales = (
   allScatterData: ScatterDataPoint[],
   innerHeight: number
 ): Record<OutcomeType, d3.ScaleLinear<number, number>> => {
-  // Stunting: fixed 0-100 scale
-  const stuntingYScale = d3.scaleLinear().domain([0, 100]).range([innerHeight, 0]);
-
-  // Consumption: dynamic based on data
-  const consumptionValues = allScatterData
-    .filter(d => d.consumptionY !== null)
-    .map(d => d.consumptionY as number);
-  const consumptionYScale = d3.scaleLinear()
-    .domain([
-      Math.floor(Math.min(...consumptionValues) * 0.95),
-      Math.ceil(Math.max(...consumptionValues) * 1.05)
-    ])
-    .range([innerHeight, 0]);
+  // Each outcome's domain policy: fixed, or padded around its values in the data
+  return Object.fromEntries(OUTCOME_IDS.map(outcome => {
+    const { domain } = OUTCOMES[outcome];
+    if (domain !== 'data') return [outcome, d3.scaleLinear().domain(domain).range([innerHeight, 0])];
+    const values = allScatterData
+      .map(d => d.outcomeY[outcome])
+      .filter((value): value is number => value !== null);
+    return [outcome, createDataYScale(values, innerHeight)];
+  })) as Record<OutcomeType, d3.ScaleLinear<number, number>>;
+};
 
-  // Roads: dynamic based on data
-  const roadsValues = allScatterData
-    .filter(d => d.roadsY !== null)
-    .map(d => d.roadsY as number);
-  const roadsYScale = d3.scaleLinear()
-    .domain([
-      Math.floor(Math.min(...roadsValues) * 0.95),
-      Math.ceil(Math.max(...roadsValues) * 1.05)
-    ])
-    .range([innerHeight, 0]);
+// Dot radius by district: area proportional to weight, the median weight at the base radius
+export const createRadiusScale = (
+  scatterData: ScatterDataPoint[],
+  weighted: boolean
+): ((d: { ubigeo: number }) => number) => {
+  const weights = new Map(scatterData
+    .filter(d => d.weight !== null && d.weight > 0)
+    .map(d => [d.ubigeo, d.weight as number]));
+  const median = d3.median(Array.from(weights.values()));
+  if (!weighted || median === undefined) return () => DOT_RADIUS.base;
 
-  return {
-    stunting: stuntingYScale,
-    consumption: consumptionYScale,
-    roads: roadsYScale,
+  const scale = d3.scaleSqrt()
+    .domain([0, median])
+    .range([0, DOT_RADIUS.base]);
+  return d => {
+    const weight = weights.get(d.ubigeo);
+    if (weight === undefined) return DOT_RADIUS.min;
+    return Math.max(DOT_RADIUS.min, Math.min(DOT_RADIUS.max, scale(weight)));
   };
 };
 
@@ -0,0 +1,34 @@
+/**
+ * Tests for bandwidth sensitivity
+ */
+import { estimateAcrossBandwidths } from './sensitivityUtils';
+import { RDPoint } from './types';
+
+// Jump of 3 at the cutoff with curvature, so wide bandwidths pick up bias
+const points: RDPoint[] = Array.from({ length: 201 }, (_, i) => {
+  const x = -50 + i * 0.5;
+  return {
+    scatterX: x,
+    scatterY: 3 * Number(x >= 0) + 0.004 * x * x + 0.2 * Math.cos(i * 2.3),
+    isInside: x >= 0,
+  };
+});
+
+describe('sensitivityUtils', () => {
+  it('estimates at every requested bandwidth', () => {
+    const results = estimateAcrossBandwidths(points, [10, 20, 40]);
+    expect(results.map(r => r.bandwidth)).toEqual([10, 20, 40]);
+    results.forEach(r => expect(r.estimate!.bandwidth).toBe(r.bandwidth));
+  });
+
+  it('narrows the confidence interval as the bandwidth grows', () => {
+    const [narrow, wide] = estimateAcrossBandwidths(points, [10, 40], { order: 2 });
+    const width = (ci: [number, number]) => ci[1] - ci[0];
+    expect(width(wide.estimate!.confidenceInterval)).toBeLessThan(width(narrow.estimate!.confidenceInterval));
+  });
+
+  it('stays near the true jump at small bandwidths', () => {
+    const [result] = estimateAcrossBandwidths(points, [10], { order: 2 });
+    expect(result.estimate!.estimate).toBeCloseTo(3, 0);
+  });
+});
@@ -0,0 +1,14 @@
+// Bandwidth sensitivity: the same RD specification re-estimated over a grid of bandwidths
+import { RDPoint, RDOptions, BandwidthEstimate } from './types';
+import { estimateRD } from './rdUtils';
+
+export const estimateAcrossBandwidths = (
+  points: RDPoint[],
+  bandwidths: number[],
+  options: RDOptions = {}
+): BandwidthEstimate[] => {
+  return bandwidths.map(bandwidth => ({
+    bandwidth,
+    estimate: estimateRD(points, { ...options, bandwidth }),
+  }));
+};
@@ -0,0 +1,56 @@
+/**
+ * Tests for spatial correlation diagnostics
+ */
+import { moransI, residualMoransI } from './spatialUtils';
+import { createRandom } from './inferenceUtils';
+import { estimateRD } from './rdUtils';
+
+// A 6 x 6 grid of districts with rook (shared-edge) neighbors; ids are row * 10 + column
+const SIZE = 6;
+const ids = Array.from({ length: SIZE * SIZE }, (_, i) => Math.floor(i / SIZE) * 10 + (i % SIZE));
+const adjacency = new Map(ids.map(id => {
+  const [row, column] = [Math.floor(id / 10), id % 10];
+  const neighbors = [[row - 1, column], [row + 1, column], [row, column - 1], [row, column + 1]]
+    .filter(([r, c]) => r >= 0 && r < SIZE && c >= 0 && c < SIZE)
+    .map(([r, c]) => r * 10 + c);
+  return [id, neighbors];
+}));
+
+describe('spatialUtils', () => {
+  it('is strongly positive for a smooth gradient', () => {
+    const result = moransI(new Map(ids.map(id => [id, Math.floor(id / 10) + (id % 10)])), adjacency, 199)!;
+    expect(result.statistic).toBeGreaterThan(0.5);
+    expect(result.pValue).toBeLessThan(0.01);
+    expect(result.expected).toBeCloseTo(-1 / 35, 10);
+    expect(result.n).toBe(36);
+  });
+
+  it('is strongly negative for a checkerboard', () => {
+    const result = moransI(new Map(ids.map(id => [id, (Math.floor(id / 10) + id) % 2])), adjacency, 199)!;
+    expect(result.statistic).toBeCloseTo(-1, 10);
+    expect(result.pValue).toBeLessThan(0.01);
+  });
+
+  it('finds no correlation in shuffled noise', () => {
+    const random = createRandom(7);
+    const result = moransI(new Map(ids.map(id => [id, random()])), adjacency, 199)!;
+    expect(result.pValue).toBeGreaterThan(0.05);
+  });
+
+  it('leaves out districts with no neighbor that has a value', () => {
+    const values = new Map([[0, 1], [1, 2], [2, 3], [55, 4]]);
+    expect(moransI(values, adjacency, 9)!.n).toBe(3);
+    expect(moransI(new Map([[0, 1], [55, 4]]), adjacency, 9)).toBeNull();
+  });
+
+  it('maps RD residuals back to districts', () => {
+    // The running variable follows the grid columns, with a bump shared by the middle rows
+    const points = ids.map(id => {
+      const x = (id % 10) - 2.5;
+      const row = Math.floor(id / 10);
+      return { ubigeo: id, scatterX: x, scatterY: x + (row === 2 || row === 3 ? 1 : 0), isInside: x > 0 };
+    });
+    const estimate = estimateRD(points, { kernel: 'uniform', bandwidth: 10 })!;
+    expect(residualMoransI(points, estimate, adjacency)!.statistic).toBeGreaterThan(0.3);
+  });
+});
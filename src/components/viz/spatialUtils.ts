@@ -0,0 +1,60 @@
+// Spatial correlation diagnostics: Moran's I over the district adjacency graph
+import { RDEstimate, MoranResult } from './types';
+import { createRandom } from './inferenceUtils';
+import { INFERENCE_DRAWS, INFERENCE_SEED } from './constants';
+
+// Moran's I with binary contiguity weights: I = (n / S0) * sum_ij w_ij z_i z_j / sum_i z_i^2,
+// z the deviations from the mean. Districts without a value, or without a neighbor that has
+// one, are left out.
+export const moransI = (
+  values: Map<number, number>,
+  adjacency: Map<number, number[]>,
+  draws = INFERENCE_DRAWS,
+  random: () => number = createRandom(INFERENCE_SEED)
+): MoranResult | null => {
+  const ids = Array.from(values.keys()).filter(id =>
+    (adjacency.get(id) ?? []).some(neighbor => values.has(neighbor)));
+  const n = ids.length;
+  if (n < 3) return null;
+
+  const position = new Map(ids.map((id, i) => [id, i]));
+  const neighbors = ids.map(id =>
+    (adjacency.get(id) ?? []).filter(neighbor => position.has(neighbor)).map(neighbor => position.get(neighbor)!));
+  const totalWeight = neighbors.reduce((s, list) => s + list.length, 0);
+
+  const raw = ids.map(id => values.get(id)!);
+  const mean = raw.reduce((s, v) => s + v, 0) / n;
+  const deviations = raw.map(v => v - mean);
+  const sumSquares = deviations.reduce((s, z) => s + z * z, 0);
+  if (sumSquares === 0) return null;
+
+  const statistic = (z: number[]): number =>
+    (n / totalWeight) * z.reduce((s, zi, i) => s + zi * neighbors[i].reduce((t, j) => t + z[j], 0), 0) / sumSquares;
+
+  const observed = statistic(deviations);
+  const expected = -1 / (n - 1);
+
+  // Permutation p-value: shuffle the values over the fixed graph
+  let extreme = 0;
+  const shuffled = deviations.slice();
+  for (let draw = 0; draw < draws; draw++) {
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    if (Math.abs(statistic(shuffled) - expected) >= Math.abs(observed - expected)) extreme++;
+  }
+
+  return { statistic: observed, expected, pValue: (extreme + 1) / (draws + 1), n };
+};
+
+// Moran's I of an RD fit's residuals, mapped back to districts through the fitted points
+export const residualMoransI = (
+  points: { ubigeo: number }[],
+  estimate: RDEstimate,
+  adjacency: Map<number, number[]>
+): MoranResult | null => {
+  const residuals = new Map<number, number>();
+  estimate.residuals.forEach((residual, index) => residuals.set(points[index].ubigeo, residual));
+  return moransI(residuals, adjacency);
+};
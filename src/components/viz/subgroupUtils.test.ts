@@ -0,0 +1,50 @@
+/**
+ * Tests for subgroup (department) RD estimates
+ */
+import { estimateSubgroups, estimateByDepartment } from './subgroupUtils';
+import { estimateRD } from './rdUtils';
+import { RDPoint } from './types';
+
+// Two departments straddling the cutoff with jumps of 2 and 6, and a third on one side only
+const makePoints = (): (RDPoint & { department: number })[] => {
+  const points: (RDPoint & { department: number })[] = [];
+  [{ department: 3, jump: 2 }, { department: 8, jump: 6 }].forEach(({ department, jump }) => {
+    for (let i = 0; i < 120; i++) {
+      const x = -30 + i * 0.5;
+      points.push({
+        scatterX: x,
+        scatterY: 10 + 0.1 * x + (x >= 0 ? jump : 0) + 0.2 * Math.sin(i * 2.3 + department),
+        isInside: x >= 0,
+        department,
+      });
+    }
+  });
+  for (let i = 0; i < 20; i++) {
+    points.push({ scatterX: 1 + i, scatterY: 14, isInside: true, department: 5 });
+  }
+  return points;
+};
+
+describe('subgroupUtils', () => {
+  it('estimates each department separately', () => {
+    const [apurimac, ayacucho, cusco] = estimateByDepartment(makePoints(), { bandwidth: 15 });
+    expect(apurimac.label).toBe('Apurímac');
+    expect(apurimac.estimate!.estimate).toBeCloseTo(2, 0);
+    expect(cusco.label).toBe('Cusco');
+    expect(cusco.estimate!.estimate).toBeCloseTo(6, 0);
+    expect(ayacucho.estimate).toBeNull();
+    expect([ayacucho.nInside, ayacucho.nOutside]).toEqual([20, 0]);
+  });
+
+  it('reuses the pooled bandwidth', () => {
+    const points = makePoints();
+    const pooled = estimateRD(points)!;
+    estimateSubgroups(points, p => p.department, String)
+      .filter(s => s.estimate)
+      .forEach(s => expect(s.estimate!.bandwidth).toBe(pooled.bandwidth));
+  });
+
+  it('sorts subgroups by code', () => {
+    expect(estimateSubgroups(makePoints(), p => p.department, String).map(s => s.group)).toEqual([3, 5, 8]);
+  });
+});
@@ -0,0 +1,34 @@
+// Subgroup RD estimates, e.g. one per department along the boundary
+import { RDPoint, RDOptions, SubgroupEstimate } from './types';
+import { estimateRD } from './rdUtils';
+import { departmentName } from './geographyUtils';
+
+// Each subgroup reuses the pooled bandwidth (unless one is given): subgroups are too small
+// to choose their own, and a common window keeps the estimates comparable.
+export const estimateSubgroups = <T extends RDPoint>(
+  points: T[],
+  groupOf: (point: T) => number,
+  labelOf: (group: number) => string,
+  options: RDOptions = {}
+): SubgroupEstimate[] => {
+  const pooled = estimateRD(points, options);
+  const subgroupOptions = { ...options, bandwidth: options.bandwidth ?? pooled?.bandwidth };
+  const groups = Array.from(new Set(points.map(groupOf))).sort((a, b) => a - b);
+
+  return groups.map(group => {
+    const members = points.filter(p => groupOf(p) === group);
+    const nInside = members.filter(p => p.isInside).length;
+    return {
+      group,
+      label: labelOf(group),
+      nInside,
+      nOutside: members.length - nInside,
+      estimate: estimateRD(members, subgroupOptions),
+    };
+  });
+};
+
+export const estimateByDepartment = <T extends RDPoint & { department: number }>(
+  points: T[],
+  options: RDOptions = {}
+): SubgroupEstimate[] => estimateSubgroups(points, p => p.department, departmentName, options);
@@ -0,0 +1,86 @@
+/**
+ * Tests for the estimates table and its exports
+ */
+import {
+  buildEstimatesTable,
+  significanceStars,
+  rowDigits,
+  tableCells,
+  toMarkdown,
+  toLatex,
+  toCSV,
+  escapeLatex,
+} from './tableUtils';
+import { estimateRD } from './rdUtils';
+import { RDPoint, TableSpecification } from './types';
+
+// Linear trend with a jump of 4 at the cutoff; no covariates, so controls cannot be estimated
+const points: RDPoint[] = Array.from({ length: 161 }, (_, i) => {
+  const x = -40 + i * 0.5;
+  return {
+    scatterX: x,
+    scatterY: 20 + 0.1 * x + (x >= 0 ? 4 : 0) + 0.5 * Math.sin(i * 1.3),
+    isInside: x >= 0,
+  };
+});
+
+const specifications: TableSpecification[] = [
+  { id: 'naive', label: 'Naive OLS', options: { order: 1 }, global: true },
+  { id: 'linear', label: 'Linear RD', options: { order: 1 } },
+  { id: 'controls', label: 'Linear RD + controls', options: { order: 1, controls: true } },
+];
+
+const table = buildEstimatesTable({ stunting: points }, specifications);
+
+describe('tableUtils', () => {
+  it('fits every specification to every outcome', () => {
+    expect(table.rows).toHaveLength(1);
+    const [naive, linear, controls] = table.rows[0].estimates;
+    expect(naive!.kernel).toBe('uniform');
+    expect(naive!.nInside + naive!.nOutside).toBe(points.length);
+    expect(linear).toEqual(estimateRD(points, { order: 1 }));
+    expect(controls).toBeNull();
+  });
+
+  it('marks significance and picks decimals from the standard errors', () => {
+    const estimate = table.rows[0].estimates[1]!;
+    expect(significanceStars(estimate)).toBe('***');
+    expect(significanceStars({ ...estimate, estimate: 0 })).toBe('');
+    expect(rowDigits([{ ...estimate, standardError: 0.26 }, null])).toBe(3);
+    expect(rowDigits([{ ...estimate, standardError: 35 }])).toBe(1);
+    expect(rowDigits([null])).toBe(2);
+  });
+
+  it('lays out coefficient, standard error, N and bandwidth rows', () => {
+    const cells = tableCells(table);
+    expect(cells.map(r => r[0])).toEqual(['Child stunting rate (2005)', '', 'N', 'Bandwidth (km)']);
+    expect(cells[0][1]).toMatch(/^\d+\.\d+\*{0,3}$/);
+    expect(cells[1][2]).toMatch(/^\(\d+\.\d+\)$/);
+    expect(cells[3][1]).toBe('All');
+    expect(cells.every(r => r[3] === '—')).toBe(true);
+  });
+
+  it('exports Markdown with a header and alignment row', () => {
+    const lines = toMarkdown(table).split('\n');
+    expect(lines[0]).toBe('|  | Naive OLS | Linear RD | Linear RD + controls |');
+    expect(lines[1]).toBe('| --- | :---: | :---: | :---: |');
+    expect(lines).toHaveLength(2 + 4 + 3);
+  });
+
+  it('exports LaTeX with escaped labels', () => {
+    const latex = toLatex(buildEstimatesTable({ roads: points }, specifications));
+    expect(latex).toContain('\\begin{tabular}{lccc}');
+    expect(latex).toContain('Road density (meters/km$^2$, 2006)');
+    expect(latex).toContain('---');
+    expect(escapeLatex('50% & more_')).toBe('50\\% \\& more\\_');
+  });
+
+  it('exports CSV in long format with quoted labels', () => {
+    const lines = toCSV(table).trim().split('\n');
+    expect(lines).toHaveLength(1 + specifications.length);
+    expect(lines[0].split(',')).toHaveLength(11);
+    expect(lines[2].startsWith('stunting,Linear RD,')).toBe(true);
+    expect(lines[3]).toBe('stunting,Linear RD + controls,,,,,,,,,');
+    expect(lines[1].split(',')[8]).toBe('');
+  });
+});
@@ -0,0 +1,116 @@
+// Estimates table: every specification fitted to every outcome, with text exports
+import { RDPoint, RDEstimate, OutcomeType, TableSpecification, EstimatesTable } from './types';
+import { estimateRD, globalFitOptions } from './rdUtils';
+import { OUTCOMES } from './outcomeUtils';
+
+const TABLE_NOTE = 'Standard errors in parentheses. * p < 0.10, ** p < 0.05, *** p < 0.01.';
+const MISSING = '—';
+
+export const buildEstimatesTable = (
+  pointsByOutcome: Partial<Record<OutcomeType, RDPoint[]>>,
+  specifications: TableSpecification[]
+): EstimatesTable => ({
+  specifications,
+  rows: (Object.keys(pointsByOutcome) as OutcomeType[]).map(outcome => {
+    const points = pointsByOutcome[outcome] as RDPoint[];
+    return {
+      outcome,
+      label: OUTCOMES[outcome].label,
+      estimates: specifications.map(spec =>
+        estimateRD(points, spec.global ? { ...spec.options, ...globalFitOptions(points) } : spec.options)),
+    };
+  }),
+});
+
+// Two-sided normal p-value thresholds at 10%, 5% and 1%
+export const significanceStars = (estimate: RDEstimate): string => {
+  const z = Math.abs(estimate.estimate / estimate.standardError);
+  return z >= 2.576 ? '***' : z >= 1.96 ? '**' : z >= 1.645 ? '*' : '';
+};
+
+// Decimals for one outcome row: three significant figures of its smallest standard error
+export const rowDigits = (estimates: (RDEstimate | null)[]): number => {
+  const errors = estimates.filter((e): e is RDEstimate => e !== null && e.standardError > 0).map(e => e.standardError);
+  if (errors.length === 0) return 2;
+  return Math.max(0, Math.min(4, 2 - Math.floor(Math.log10(Math.min(...errors)))));
+};
+
+// Display rows shared by the Markdown, LaTeX and HTML tables:
+// coefficient, (standard error), N and bandwidth for each outcome
+export const tableCells = (table: EstimatesTable): string[][] => {
+  return table.rows.flatMap(row => {
+    const digits = rowDigits(row.estimates);
+    const cell = (f: (e: RDEstimate, spec: TableSpecification) => string) =>
+      row.estimates.map((e, j) => (e ? f(e, table.specifications[j]) : MISSING));
+    return [
+      [row.label, ...cell(e => `${e.estimate.toFixed(digits)}${significanceStars(e)}`)],
+      ['', ...cell(e => `(${e.standardError.toFixed(digits)})`)],
+      ['N', ...cell(e => String(e.nInside + e.nOutside))],
+      ['Bandwidth (km)', ...cell((e, spec) => (spec.global ? 'All' : e.bandwidth.toFixed(1)))],
+    ];
+  });
+};
+
+export const toMarkdown = (table: EstimatesTable): string => {
+  const header = ['', ...table.specifications.map(s => s.label)];
+  const line = (cells: string[]) => `| ${cells.map(c => c.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [
+    line(header),
+    line(header.map((_, j) => (j === 0 ? '---' : ':---:'))),
+    ...tableCells(table).map(line),
+    '',
+    TABLE_NOTE,
+    '',
+  ].join('\n');
+};
+
+export const escapeLatex = (text: string): string =>
+  text
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/²/g, '$^2$')
+    .replace(/—/g, '---');
+
+// booktabs tabular, one column per specification, a rule between outcomes
+export const toLatex = (table: EstimatesTable): string => {
+  const k = table.specifications.length;
+  const line = (cells: string[]) => `${cells.map(escapeLatex).join(' & ')} \\\\`;
+  const cells = tableCells(table);
+  const body = table.rows.flatMap((_, i) => [
+    ...(i > 0 ? ['\\midrule'] : []),
+    ...cells.slice(i * 4, i * 4 + 4).map(line),
+  ]);
+  return [
+    `\\begin{tabular}{l${'c'.repeat(k)}}`,
+    '\\toprule',
+    line(['', ...table.specifications.map(s => s.label)]),
+    '\\midrule',
+    ...body,
+    '\\bottomrule',
+    `\\multicolumn{${k + 1}}{l}{\\footnotesize ${escapeLatex(TABLE_NOTE)}} \\\\`,
+    '\\end{tabular}',
+    '',
+  ].join('\n');
+};
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Long format, one line per outcome and specification, at full precision
+export const toCSV = (table: EstimatesTable): string => {
+  const header = [
+    'outcome', 'specification', 'estimate', 'standard_error', 'ci_lower', 'ci_upper',
+    'n_inside', 'n_outside', 'bandwidth_km', 'order', 'variance',
+  ];
+  const lines = table.rows.flatMap(row => row.estimates.map((e, j) => {
+    const spec = table.specifications[j];
+    const values = e
+      ? [e.estimate, e.standardError, ...e.confidenceInterval, e.nInside, e.nOutside,
+        spec.global ? '' : e.bandwidth, e.order, e.variance]
+      : Array(9).fill('');
+    return [row.outcome, spec.label, ...values].map(csvField).join(',');
+  }));
+  return [header.join(','), ...lines, ''].join('\n');
+};
@@ -0,0 +1,122 @@
+/**
+ * Tests for the TopoJSON district geometry: shared arcs, decoding and simplification
+ */
+import districtPolygons from '../../data/districtPolygons.json';
+import districtTopology from '../../data/districtTopology.json';
+import { buildTopology, decodeDistrictTopology, districtGeometry, isTopology } from './topologyUtils';
+import { validateDistrictPolygons, validateDistrictTopology } from './validationUtils';
+import { districtOutlines } from './dataUtils';
+import { districtAdjacency } from './adjacencyUtils';
+import { DistrictPolygon } from './types';
+
+// [lat, lon] ring through the given [lat, lon] corners, closed
+const closed = (corners: [number, number][]): [number, number][] => [...corners, corners[0]];
+
+// Two unit squares side by side, the right one with a wiggly shared border
+const border: [number, number][] = [[0, 1], [0.25, 1.001], [0.5, 0.999], [0.75, 1.001], [1, 1]];
+const left: DistrictPolygon = { ubigeo: 1, mita: 0, polygon: closed([[0, 0], ...border, [1, 0]]) };
+const right: DistrictPolygon = {
+  ubigeo: 2,
+  mita: 1,
+  polygon: closed([[0, 1], [0, 2], [1, 2], ...border.slice().reverse().slice(0, -1)]),
+};
+
+// Positions compared on a grid coarser than the quantization
+const key = (p: [number, number]): string => p.map(x => x.toFixed(4)).join(',');
+
+describe('topologyUtils', () => {
+  it('stores a shared border once and decodes both districts back', () => {
+    const topology = buildTopology([left, right]);
+    expect(isTopology(topology)).toBe(true);
+    const geometries = topology.objects.districts.geometries;
+    const [leftArcs, rightArcs] = geometries.map(g => (g.type === 'Polygon' ? g.arcs.flat() : []));
+    const shared = leftArcs.filter(a => rightArcs.some(b => b === ~a || ~b === a));
+    expect(shared).toHaveLength(1);
+
+    const decoded = validateDistrictTopology(topology);
+    expect(decoded.issues.filter(i => i.severity === 'error')).toEqual([]);
+    decoded.data.forEach((d, i) => {
+      const original = [left, right][i];
+      expect(d).toMatchObject({ ubigeo: original.ubigeo, mita: original.mita });
+      expect(d.polygon).toHaveLength(original.polygon.length);
+      expect(new Set(d.polygon.map(key))).toEqual(new Set(original.polygon.map(key)));
+    });
+  });
+
+  it('keeps multipolygons and holes', () => {
+    const island = closed([[5, 5], [5, 6], [6, 6], [6, 5]]);
+    const mainland = closed([[0, 0], [0, 4], [4, 4], [4, 0]]);
+    const hole = closed([[1, 1], [2, 1], [2, 2], [1, 2]]);
+    const district: DistrictPolygon = { ubigeo: 3, mita: 0, polygon: mainland, parts: [[mainland, hole], [island]] };
+    const [decoded] = validateDistrictTopology(buildTopology([district])).data;
+
+    expect(decoded.parts).toHaveLength(2);
+    expect(decoded.parts![0]).toHaveLength(2);
+    expect(decoded.parts![1]).toHaveLength(1);
+    // The largest part's outer ring stands in for the district
+    expect(new Set(decoded.polygon.map(key))).toEqual(new Set(mainland.map(key)));
+    expect(districtGeometry(decoded).coordinates.map(part => part.length)).toEqual([2, 1]);
+  });
+
+  it('simplifies shared borders identically on both sides', () => {
+    const topology = buildTopology([left, right]);
+    const [full, simple] = [0, 1e-3].map(area => validateDistrictTopology(topology, area).data);
+    const borderPoints = (districts: DistrictPolygon[], i: number) =>
+      districts[i].polygon.map(key).filter(k => Number(k.split(',')[1]) > 0.99 && Number(k.split(',')[1]) < 1.01);
+
+    expect(simple[0].polygon.length).toBeLessThan(full[0].polygon.length);
+    expect(new Set(borderPoints(simple, 0))).toEqual(new Set(borderPoints(simple, 1)));
+    simple.forEach(d => expect(d.polygon.length).toBeGreaterThanOrEqual(4));
+  });
+
+  it('snaps borders traced separately onto a shared arc', () => {
+    // The right square's border runs 0.001° off the left's, with vertices of its own
+    const apart: DistrictPolygon = {
+      ubigeo: 2,
+      mita: 1,
+      polygon: closed([[0, 1.001], [0, 2], [1, 2], [1, 1.001], [0.6, 1.0012], [0.3, 0.9991]]),
+    };
+    const arcsOf = (topology: ReturnType<typeof buildTopology>) => topology.objects.districts.geometries
+      .map(g => (g.type === 'Polygon' ? g.arcs.flat() : []).map(a => (a < 0 ? ~a : a)));
+    const [snappedLeft, snappedRight] = arcsOf(buildTopology([left, apart]));
+    expect(snappedLeft.some(a => snappedRight.includes(a))).toBe(true);
+    const [rawLeft, rawRight] = arcsOf(buildTopology([left, apart], undefined, 0));
+    expect(rawLeft.some(a => rawRight.includes(a))).toBe(false);
+  });
+
+  it('gives every pair of bundled neighbors a shared arc', () => {
+    const arcs = new Map(districtTopology.objects.districts.geometries.map(g => [
+      g.properties.ubigeo,
+      new Set((g.arcs as unknown[]).flat(2).map(a => (a as number) < 0 ? ~(a as number) : a as number)),
+    ]));
+    const unshared: string[] = [];
+    districtAdjacency().forEach((neighbors, ubigeo) => neighbors.forEach(({ ubigeo: other }) => {
+      if (!Array.from(arcs.get(ubigeo)!).some(a => arcs.get(other)!.has(a))) unshared.push(`${ubigeo}-${other}`);
+    }));
+    expect(unshared).toEqual([]);
+  });
+
+  it('bundles the topology that scripts/buildTopology.ts builds from the source outlines', () => {
+    const { data, issues } = validateDistrictPolygons(districtPolygons);
+    expect(issues).toEqual([]);
+    expect(buildTopology(data)).toEqual(districtTopology);
+  });
+
+  it('decodes nothing from a value that is not a topology', () => {
+    expect(decodeDistrictTopology({ type: 'FeatureCollection', features: [] })).toEqual([]);
+    expect(validateDistrictTopology([]).issues[0]).toMatchObject({ kind: 'schema', severity: 'error' });
+  });
+
+  it('decodes the bundled districts at every zoom level', () => {
+    const { data, issues } = validateDistrictTopology(districtTopology);
+    expect(data).toHaveLength(305);
+    expect(issues.filter(i => i.severity === 'error')).toEqual([]);
+
+    const vertices = (outlines: Map<number, [number, number][][][]>) =>
+      Array.from(outlines.values()).reduce((n, parts) => n + parts.flat().reduce((m, r) => m + r.length, 0), 0);
+    const [peru, mita] = [districtOutlines('peru'), districtOutlines('mita')];
+    expect(peru.size).toBe(305);
+    expect(vertices(peru)).toBeLessThan(vertices(mita));
+    expect(vertices(mita)).toBeLessThanOrEqual(data.reduce((n, d) => n + d.polygon.length, 0));
+  });
+});
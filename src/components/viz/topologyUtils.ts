@@ -0,0 +1,315 @@
+// District geometry as TopoJSON: a border between two districts is one arc that both rings
+// reference, so it is stored once and simplifies identically on both sides (no slivers or
+// gaps between neighbors). Districts are [lat, lon]; TopoJSON positions are [lon, lat].
+import * as d3 from 'd3';
+import { DistrictPolygon, DistrictOutlines, Topology, TopoPolygon, TopoMultiPolygon, TopoTransform } from './types';
+import { TOPOLOGY_QUANTIZATION, TOPOLOGY_SNAP_TOLERANCE } from './constants';
+
+type Position = [number, number];
+
+const DISTRICTS_OBJECT = 'districts';
+
+const ringArea = (ring: Position[]): number => Math.abs(d3.polygonArea(ring));
+
+const positionKey = (p: Position): string => `${p[0]},${p[1]}`;
+
+// Rings of a district, outer ring first within each part
+const districtParts = (district: DistrictPolygon): Position[][][] => district.parts ?? [[district.polygon]];
+
+// Ring as distinct consecutive grid points, without the closing repeat
+const openRing = (ring: Position[]): Position[] => {
+  const points = ring.filter((p, i) => i === 0 || positionKey(p) !== positionKey(ring[i - 1]));
+  if (points.length > 1 && positionKey(points[0]) === positionKey(points[points.length - 1])) points.pop();
+  return points;
+};
+
+// A snapped position and the districts whose rings pass through it
+interface SnapVertex {
+  point: Position;
+  owners: Set<number>;
+}
+
+// Make neighbors share vertices where their outlines run within tolerance (degrees) of each
+// other. Edges are first densified to the tolerance, so borders that part at a shallow angle
+// still get common points; then each vertex snaps to the nearest vertex of another district,
+// and other districts' vertices lying along an edge move onto it and are inserted into it (the
+// edge keeps its course, so corners grow no spikes). Rings are [lat, lon] and come out open;
+// the densified points are returned too, so they can be dropped again once arcs are cut.
+const snapDistricts = (
+  districts: Position[][][][],
+  tolerance: number
+): { districts: Position[][][][]; added: Set<Position> } => {
+  const open = districts.map(parts => parts.map(rings => rings.map(ring =>
+    (ring.length > 1 && positionKey(ring[0]) === positionKey(ring[ring.length - 1]) ? ring.slice(0, -1) : ring))));
+  const added = new Set<Position>();
+  if (tolerance <= 0) return { districts: open, added };
+
+  const dense = open.map(parts => parts.map(rings => rings.map(ring => ring.flatMap((p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    const steps = Math.ceil(Math.hypot(q[0] - p[0], q[1] - p[1]) / tolerance);
+    const between = Array.from({ length: Math.max(0, steps - 1) }, (_, k): Position =>
+      [p[0] + ((k + 1) / steps) * (q[0] - p[0]), p[1] + ((k + 1) / steps) * (q[1] - p[1])]);
+    between.forEach(point => added.add(point));
+    // Copies, since snapping moves shared positions in place
+    return [[p[0], p[1]] as Position, ...between];
+  }))));
+
+  const cell = (p: Position): [number, number] => [Math.floor(p[0] / tolerance), Math.floor(p[1] / tolerance)];
+  const grid = new Map<string, SnapVertex[]>();
+  const near = (low: Position, high: Position = low): SnapVertex[] => {
+    const [[i0, j0], [i1, j1]] = [cell(low), cell(high)];
+    const found: SnapVertex[] = [];
+    for (let i = i0 - 1; i <= i1 + 1; i++) {
+      for (let j = j0 - 1; j <= j1 + 1; j++) found.push(...(grid.get(`${i},${j}`) ?? []));
+    }
+    return found;
+  };
+  const distance = (a: Position, b: Position): number => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+  // Vertices: each snaps to the nearest vertex of another district within reach, if any
+  const snapped = dense.map((parts, d) => parts.map(rings => rings.map(ring => ring.map(p => {
+    const match = near(p)
+      .filter(v => distance(v.point, p) <= tolerance && (!v.owners.has(d) || positionKey(v.point) === positionKey(p)))
+      .sort((a, b) => distance(a.point, p) - distance(b.point, p))[0];
+    if (match) {
+      match.owners.add(d);
+      return match.point;
+    }
+    const key = cell(p).join(',');
+    grid.set(key, [...(grid.get(key) ?? []), { point: p, owners: new Set([d]) }]);
+    return p;
+  }))));
+
+  // Edges: other districts' vertices within tolerance of an edge move onto it, in order
+  const joined = snapped.map((parts, d) => parts.map(rings => rings.map(ring => ring.flatMap((p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    const [dx, dy] = [q[0] - p[0], q[1] - p[1]];
+    const length2 = dx * dx + dy * dy;
+    if (length2 === 0) return [p];
+    const along = near([Math.min(p[0], q[0]), Math.min(p[1], q[1])], [Math.max(p[0], q[0]), Math.max(p[1], q[1])])
+      .filter(v => !v.owners.has(d))
+      .map(v => ({ v, t: ((v.point[0] - p[0]) * dx + (v.point[1] - p[1]) * dy) / length2 }))
+      // Feet right at an endpoint belong to edges that meet this one at a corner, not run along it
+      .filter(({ v, t }) => Math.min(t, 1 - t) * Math.sqrt(length2) > tolerance / 10 &&
+        distance([p[0] + t * dx, p[1] + t * dy], v.point) <= tolerance)
+      .sort((a, b) => a.t - b.t);
+    along.forEach(({ v, t }) => {
+      v.point[0] = p[0] + t * dx;
+      v.point[1] = p[1] + t * dy;
+      v.owners.add(d);
+    });
+    return [p, ...along.map(({ v }) => v.point)];
+  }))));
+  return { districts: joined, added };
+};
+
+// Encode districts as a quantized topology with shared arcs. Outlines within snapTolerance
+// (degrees) of each other are snapped together first, so neighbors traced separately still
+// share their border.
+export const buildTopology = (
+  districts: DistrictPolygon[],
+  quantization = TOPOLOGY_QUANTIZATION,
+  snapTolerance = TOPOLOGY_SNAP_TOLERANCE
+): Topology => {
+  const { districts: snapped, added } = snapDistricts(districts.map(districtParts), snapTolerance);
+  const all = snapped.flat(3);
+  const [x0, x1] = d3.extent(all, p => p[1]) as [number, number];
+  const [y0, y1] = d3.extent(all, p => p[0]) as [number, number];
+  const transform: TopoTransform = {
+    scale: [(x1 - x0) / (quantization - 1) || 1, (y1 - y0) / (quantization - 1) || 1],
+    translate: [x0, y0],
+  };
+  const quantize = ([lat, lon]: Position): Position => [
+    Math.round((lon - x0) / transform.scale[0]),
+    Math.round((lat - y0) / transform.scale[1]),
+  ];
+
+  const rings = snapped.map(parts => parts.map(part =>
+    part.map(ring => openRing(ring.map(quantize))).filter(ring => ring.length >= 3)));
+
+  // Junctions: points whose neighbors differ between the rings through them (where three
+  // districts meet, or a shared border starts). A ring with none is cut at its smallest point,
+  // which every ring tracing the same loop picks too.
+  const neighbors = new Map<string, Set<string>>();
+  rings.flat(2).forEach(ring => ring.forEach((p, i) => {
+    const key = positionKey(p);
+    if (!neighbors.has(key)) neighbors.set(key, new Set());
+    neighbors.get(key)!.add(positionKey(ring[(i + ring.length - 1) % ring.length]));
+    neighbors.get(key)!.add(positionKey(ring[(i + 1) % ring.length]));
+  }));
+  const isJunction = (p: Position): boolean => neighbors.get(positionKey(p))!.size > 2;
+
+  const arcs: Position[][] = [];
+  const arcIndex = new Map<string, number>();
+  const addArc = (arc: Position[]): number => {
+    const forward = arc.map(positionKey).join(';');
+    const existing = arcIndex.get(forward);
+    if (existing !== undefined) return existing;
+    const reversed = arcIndex.get(arc.map(positionKey).reverse().join(';'));
+    if (reversed !== undefined) return ~reversed;
+    arcIndex.set(forward, arcs.length);
+    arcs.push(arc);
+    return arcs.length - 1;
+  };
+
+  const encodeRing = (ring: Position[]): number[] => {
+    let cuts = ring.map((p, i) => (isJunction(p) ? i : -1)).filter(i => i >= 0);
+    if (cuts.length === 0) {
+      const smallest = ring.reduce((best, p, i) =>
+        (p[0] < ring[best][0] || (p[0] === ring[best][0] && p[1] < ring[best][1]) ? i : best), 0);
+      cuts = [smallest];
+    }
+    return cuts.map((start, k) => {
+      const end = k + 1 < cuts.length ? cuts[k + 1] : cuts[0] + ring.length;
+      return addArc(Array.from({ length: end - start + 1 }, (_, i) => ring[(start + i) % ring.length]));
+    });
+  };
+
+  const geometries = districts.map((d, i): TopoPolygon | TopoMultiPolygon => {
+    const parts = rings[i].filter(part => part.length > 0).map(part => part.map(encodeRing));
+    const properties = { ubigeo: d.ubigeo, mita: d.mita };
+    return parts.length === 1
+      ? { type: 'Polygon', arcs: parts[0], properties }
+      : { type: 'MultiPolygon', arcs: parts, properties };
+  });
+
+  // Densified points only served to line neighbors up; inside an arc both sides share, they can go
+  const original = new Set(districts.flatMap(d => districtParts(d).flat(2)).map(p => positionKey(quantize(p))));
+  const densified = new Set(Array.from(added, p => positionKey(quantize(p))).filter(key => !original.has(key)));
+  const trimmed = arcs.map(arc => arc.filter((p, i) => i === 0 || i === arc.length - 1 || !densified.has(positionKey(p))));
+
+  // Delta-encode each arc after its first position
+  const encoded = trimmed.map(arc => arc.map((p, i): Position =>
+    i === 0 ? p : [p[0] - arc[i - 1][0], p[1] - arc[i - 1][1]]));
+
+  return {
+    type: 'Topology',
+    transform,
+    arcs: encoded,
+    objects: { [DISTRICTS_OBJECT]: { type: 'GeometryCollection', geometries } },
+  };
+};
+
+export const isTopology = (raw: unknown): raw is Topology => {
+  const topology = raw as Topology;
+  return typeof raw === 'object' && raw !== null && topology.type === 'Topology' &&
+    Array.isArray(topology.arcs) && typeof topology.objects === 'object' && topology.objects !== null;
+};
+
+// Arcs in absolute [lon, lat] degrees
+const decodeArcs = (topology: Topology): Position[][] => {
+  const { transform } = topology;
+  if (!transform) return topology.arcs;
+  const [kx, ky] = transform.scale;
+  const [dx, dy] = transform.translate;
+  return topology.arcs.map(arc => {
+    let [x, y] = [0, 0];
+    return arc.map(([qx, qy]) => {
+      x += qx;
+      y += qy;
+      return [x * kx + dx, y * ky + dy];
+    });
+  });
+};
+
+// Triangle area in square degrees, the Visvalingam measure of a point's importance
+const triangleArea = (a: Position, b: Position, c: Position): number =>
+  Math.abs((a[0] - c[0]) * (b[1] - a[1]) - (a[0] - b[0]) * (c[1] - a[1])) / 2;
+
+// Visvalingam-Whyatt effective area of every position, made monotonic so a point is never
+// dropped before one removed earlier. Endpoints (junctions) are always kept, and so is each
+// arc's most important interior point (two for a closed arc), so no ring collapses.
+export const arcWeights = (arc: Position[]): number[] => {
+  const weights = arc.map(() => Infinity);
+  const alive = arc.map((_, i) => i);
+  const areaAt = (k: number): number => triangleArea(arc[alive[k - 1]], arc[alive[k]], arc[alive[k + 1]]);
+  let floor = 0;
+  while (alive.length > 2) {
+    let min = 1;
+    let minArea = areaAt(1);
+    for (let k = 2; k < alive.length - 1; k++) {
+      const area = areaAt(k);
+      if (area < minArea) {
+        min = k;
+        minArea = area;
+      }
+    }
+    floor = Math.max(floor, minArea);
+    weights[alive[min]] = floor;
+    alive.splice(min, 1);
+  }
+
+  const closed = arc.length > 1 && positionKey(arc[0]) === positionKey(arc[arc.length - 1]);
+  const keep = arc.map((_, i) => i).slice(1, -1)
+    .sort((a, b) => weights[b] - weights[a])
+    .slice(0, closed ? 2 : 1);
+  keep.forEach(i => { weights[i] = Infinity; });
+  return weights;
+};
+
+// Per-arc weights, computed once per topology
+const weightCache = new WeakMap<Topology, number[][]>();
+
+const topologyWeights = (topology: Topology, arcs: Position[][]): number[][] => {
+  if (!weightCache.has(topology)) weightCache.set(topology, arcs.map(arcWeights));
+  return weightCache.get(topology)!;
+};
+
+// Decode a geometry collection (the districts by default) into raw district records ([lat, lon]
+// rings), dropping positions whose effective area is below minArea. Malformed geometries come
+// out without an outline, for validateDistrictPolygons to report; a value that is not a
+// topology decodes to nothing.
+export const decodeDistrictTopology = (
+  raw: unknown,
+  minArea = 0,
+  object = DISTRICTS_OBJECT
+): Record<string, unknown>[] => {
+  if (!isTopology(raw)) return [];
+  const collection = raw.objects[object];
+  if (!collection || !Array.isArray(collection.geometries)) return [];
+
+  const absolute = decodeArcs(raw);
+  const weights = minArea > 0 ? topologyWeights(raw, absolute) : null;
+  const arcs = weights
+    ? absolute.map((arc, i) => arc.filter((_, j) => weights[i][j] >= minArea))
+    : absolute;
+
+  // Consecutive arcs share their junction, so each arc after the first drops its first position
+  const decodeRing = (indexes: number[]): Position[] | null => {
+    const ring: Position[] = [];
+    for (const index of indexes) {
+      const arc = arcs[index < 0 ? ~index : index];
+      if (!arc) return null;
+      const points = index < 0 ? arc.slice().reverse() : arc;
+      ring.push(...(ring.length > 0 ? points.slice(1) : points));
+    }
+    return ring.map(([lon, lat]) => [lat, lon]);
+  };
+
+  return collection.geometries.map(geometry => {
+    const partArcs = geometry.type === 'Polygon' ? [geometry.arcs] : geometry.type === 'MultiPolygon' ? geometry.arcs : [];
+    const parts = partArcs.map(part => part.map(decodeRing));
+    const valid = parts.every(part => part.length > 0 && part.every(ring => ring !== null))
+      ? parts as Position[][][]
+      : [];
+    // The largest part's outer ring stands in for the district where one ring is needed
+    const outer = valid.map(part => part[0]).sort((a, b) => ringArea(b) - ringArea(a))[0];
+    const single = valid.length === 1 && valid[0].length === 1;
+    return {
+      ...geometry.properties,
+      polygon: outer,
+      ...(single || valid.length === 0 ? {} : { parts: valid }),
+    };
+  });
+};
+
+// GeoJSON ([lon, lat]) for drawing a district: its entry in outlines (the simplified outlines
+// for the current zoom) when there is one, otherwise its own rings
+export const districtGeometry = (
+  district: DistrictPolygon,
+  outlines?: DistrictOutlines | null
+): { type: 'MultiPolygon'; coordinates: Position[][][] } => ({
+  type: 'MultiPolygon',
+  coordinates: (outlines?.get(district.ubigeo) ?? districtParts(district))
+    .map(part => part.map(ring => ring.map(([lat, lon]): Position => [lon, lat]))),
+});
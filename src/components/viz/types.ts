@@ -1,57 +1,342 @@
 // Shared types for visualization components
+import type { OUTCOMES } from './outcomeUtils';
 
 export interface DistrictPolygon {
   ubigeo: number;
   mita: number;
-  polygon: [number, number][];
+  polygon: [number, number][]; // Outer ring of the largest part
+  parts?: [number, number][][][]; // Every part as rings (outer first, then holes); absent for a single ring
 }
 
-export interface DistrictData {
+export interface DistrictData extends OutcomeValues {
   ubigeo: number;
   distance: number | null;
   isInside: boolean;
-  consumption: number | null;
-  stunting: number | null;
-  roads: number | null;
   lat: number | null;
   lon: number | null;
+  // Pre-treatment geography (not yet in the bundled data)
+  elevation?: number | null; // Mean district elevation (m)
+  slope?: number | null; // Mean district slope (degrees)
+  population1572?: number | null; // Tributary population in the 1572 Toledo census
+  // Survey sample sizes behind the district means (not in the bundled data; uploads can map them)
+  households?: number | null; // Households surveyed for consumption
+  children?: number | null; // Children measured for stunting
 }
 
-export interface MergedDistrictData {
+export interface MergedDistrictData extends OutcomeValues {
   ubigeo: number;
   mita: number;
   polygon: [number, number][];
+  parts?: [number, number][][][];
   centroidLon: number;
   centroidLat: number;
-  distance: number | null;
-  isInside: boolean;
-  consumption: number | null;
-  stunting: number | null;
-  roads: number | null;
+  distance: number | null; // km from the running-variable origin to the mita boundary
+  isInside: boolean; // Origin falls inside the mita territory
+  scatterX: number | null; // Running variable: distance signed by side, mita positive
+  elevation: number | null;
+  slope: number | null;
+  population1572: number | null;
+  households: number | null;
+  children: number | null;
+  lat: number | null; // Coordinates from the replication data (negative: south/west)
+  lon: number | null;
+  boundarySegment: number; // Index of the nearest equal-length mita boundary segment
+  department: number; // Codes decoded from the ubigeo (see UbigeoParts)
+  province: number;
 }
 
 export interface ScatterDataPoint extends MergedDistrictData {
   scatterX: number;
   scatterY: number;
-  stuntingY: number | null;
-  consumptionY: number | null;
-  roadsY: number | null;
+  outcomeY: OutcomeValues; // Every outcome in plotted units, for transitions between outcomes
+  isDonut: boolean; // Within the donut radius of the cutoff: drawn hollow and left out of the fit
+  weight: number | null; // Survey sample size behind scatterY, where the field has one
+}
+
+// Fitted value with its pointwise 95% confidence band
+export interface FittedPoint {
+  x: number;
+  y: number;
+  lower: number;
+  upper: number;
 }
 
 export interface FittedLines {
-  insideLineLinear: { x: number; y: number }[];
-  outsideLineLinear: { x: number; y: number }[];
-  insideLinePoly: { x: number; y: number }[];
-  outsideLinePoly: { x: number; y: number }[];
+  insideLineLinear: FittedPoint[];
+  outsideLineLinear: FittedPoint[];
+  insideLinePoly: FittedPoint[];
+  outsideLinePoly: FittedPoint[];
   naiveDiscontinuity: number;
-  paperDiscontinuity: number;
+  rdDiscontinuity: number;
+  naiveEstimate: RDEstimate | null;
+  rdEstimate: RDEstimate | null;
+  controlledEstimate: RDEstimate | null; // Same bandwidth, with geographic controls
+  segmentEstimate: RDEstimate | null; // Same bandwidth, with boundary-segment fixed effects
+}
+
+// Regression discontinuity estimation
+export type KernelType = 'uniform' | 'triangular' | 'epanechnikov';
+export type VarianceType = 'hc1' | 'hc2' | 'cluster' | 'conley';
+
+export interface RDPoint {
+  scatterX: number;
+  scatterY: number;
+  isInside: boolean;
+  cluster?: number | string; // Used when variance is 'cluster'
+  covariates?: number[]; // Pre-treatment controls, used when controls is true
+  segment?: number; // Boundary segment, used when segmentEffects is true
+  weight?: number | null; // Observation weight (e.g. survey sample size), used when weighted is true
+  location?: [number, number]; // [lat, lon], used when variance is 'conley'
+}
+
+export interface RDOptions {
+  kernel?: KernelType;
+  order?: number; // Polynomial order on each side (1 = local linear)
+  bandwidth?: number; // km; omit for the MSE-optimal bandwidth
+  variance?: VarianceType;
+  controls?: boolean; // Partial out RDPoint.covariates
+  segmentEffects?: boolean; // Boundary-segment fixed effects from RDPoint.segment
+  weighted?: boolean; // WLS with RDPoint.weight; unweighted points are dropped. Only uploaded data has weights
+  conleyCutoff?: number; // km; spatial-HAC distance cutoff when variance is 'conley'
+}
+
+export interface RDEstimate {
+  estimate: number; // Inside (mita) limit minus outside (non-mita) limit at the cutoff
+  standardError: number;
+  confidenceInterval: [number, number]; // 95%
+  variance: VarianceType;
+  bandwidth: number;
+  kernel: KernelType;
+  order: number;
+  nInside: number; // Effective N (observations with positive kernel weight)
+  nOutside: number;
+  insideCoefficients: number[]; // Polynomial in scatterX, constant term first
+  outsideCoefficients: number[];
+  insideCovariance: number[][]; // Robust covariance of the coefficients
+  outsideCovariance: number[][];
+  covariateCoefficients: number[]; // Empty without controls
+  residuals: Map<number, number>; // Fit residual by index into the input points, for points in the window
+}
+
+// Geographic RD (Dell 2010): outcome on a polynomial in latitude and longitude plus a mita dummy
+export interface GeoRDPoint extends RDPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface GeoRDOptions {
+  order?: number; // Total degree of the lat/lon polynomial (Dell uses 3)
+  variance?: VarianceType;
+  interacted?: boolean; // Separate surfaces on each side, so the jump varies along the boundary
+  segmentEffects?: boolean; // Boundary-segment fixed effects from RDPoint.segment
+  conleyCutoff?: number; // km; spatial-HAC distance cutoff when variance is 'conley'
+}
+
+export interface BoundaryJump {
+  lat: number;
+  lon: number;
+  jump: number; // Inside minus outside surface at this boundary point
+  lower: number; // 95% CI
+  upper: number;
+}
+
+export interface GeographicRDEstimate {
+  estimate: number; // Mita coefficient, or the mean jump along the boundary when interacted
+  standardError: number;
+  confidenceInterval: [number, number]; // 95%
+  variance: VarianceType;
+  order: number;
+  interacted: boolean;
+  nInside: number;
+  nOutside: number;
+  center: [number, number]; // [lat, lon] the polynomial is centred on
+  scale: number; // km per unit of the centred polynomial coordinates
+  coefficients: number[]; // [1, monomials, T, (T * monomials), segment dummies]
+  covariance: number[][];
+  extraMeans: number[]; // Mean of each segment dummy, used when predicting
+  boundaryJumps: BoundaryJump[];
+}
+
+// Administrative hierarchy encoded in a ubigeo (DDPPdd). Codes keep their parent's digits,
+// so provinces are unique nationally; leading zeros are lost when the ubigeo is a number.
+export interface UbigeoParts {
+  department: number; // DD
+  province: number; // DDPP
+  district: number; // DDPPdd, the ubigeo itself
+}
+
+// Discontinuity estimated within one subgroup of districts (e.g. a department)
+export interface SubgroupEstimate {
+  group: number;
+  label: string;
+  nInside: number; // Districts in the subgroup on each side, at any distance
+  nOutside: number;
+  estimate: RDEstimate | null; // Null when a side has too little data (or no districts at all)
+}
+
+// Regression table in the layout of Dell (2010) Table II: outcomes as rows, specifications as columns
+export interface TableSpecification {
+  id: string;
+  label: string;
+  options: RDOptions;
+  global?: boolean; // Naive OLS on all the data rather than a local fit at the cutoff
+}
+
+export interface EstimatesTableRow {
+  outcome: OutcomeType;
+  label: string;
+  estimates: (RDEstimate | null)[]; // One per specification; null where it cannot be estimated
+}
+
+export interface EstimatesTable {
+  specifications: TableSpecification[];
+  rows: EstimatesTableRow[];
+}
+
+// Replication check against the published coefficients
+export type ReplicationStatus =
+  | 'match' // Within tolerance of the published coefficient
+  | 'consistent' // Outside tolerance, but the published coefficient is inside our 95% CI
+  | 'mismatch';
+
+export interface ReplicationResult {
+  outcome: OutcomeType;
+  published: number; // Dell (2010), in the scatter's units (stunting in percentage points)
+  estimate: GeographicRDEstimate | null;
+  difference: number | null; // Our estimate minus the published coefficient
+  tolerance: number; // Largest difference that counts as a match
+  status: ReplicationStatus;
+}
+
+// Discontinuity re-estimated at a fake cutoff (null where there is too little data)
+export interface PlaceboEstimate {
+  cutoff: number; // km on the scatterX axis
+  isTrueCutoff: boolean;
+  estimate: RDEstimate | null;
+}
+
+// Discontinuity estimated at a fixed bandwidth, for sensitivity analysis
+export interface BandwidthEstimate {
+  bandwidth: number; // km
+  estimate: RDEstimate | null;
+}
+
+// Resampling inference for the discontinuity
+export type InferenceMethod = 'permutation' | 'bootstrap';
+
+export interface InferenceOptions {
+  method: InferenceMethod;
+  draws?: number;
+  seed?: number; // Same seed, same draws
+  window?: number; // km; permutation only, defaults to the RD bandwidth
+}
+
+export interface InferenceResult {
+  method: InferenceMethod;
+  observed: number; // Statistic on the actual data
+  draws: number[]; // Null (permutation) or bootstrap distribution of the statistic
+  pValue: number; // Two-sided; for the bootstrap, the share of draws on the other side of 0
+  standardError: number; // SD of the draws
+  confidenceInterval: [number, number]; // Percentile 95% CI (bootstrap) or the null's central 95%
+  window: number; // km around the cutoff (permutation window or RD bandwidth)
+  nInside: number;
+  nOutside: number;
+}
+
+// Messages to and from the inference Web Worker
+export interface InferenceRequest {
+  points: RDPoint[];
+  rdOptions: RDOptions;
+  options: InferenceOptions;
+}
+
+export type InferenceWorkerMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'result'; result: InferenceResult | null }
+  | { type: 'error'; message: string };
+
+// A running inference job; cancelling terminates the worker and resolves the promise with null
+export interface InferenceJob {
+  promise: Promise<InferenceResult | null>;
+  cancel: () => void;
+}
+
+// Binned scatter (rdplot-style): bins never straddle the cutoff
+export type BinMethod = 'even' | 'quantile'; // Equal-width or equal-count bins
+
+export interface ScatterBin {
+  isInside: boolean;
+  x0: number; // Bin edges on scatterX
+  x1: number;
+  x: number; // Mean scatterX of the members
+  mean: number; // Mean scatterY of the members
+  lower: number; // 95% CI for the mean
+  upper: number;
+  count: number;
+  members: number[]; // Indices into the binned points
 }
 
-export type OutcomeType = 'consumption' | 'stunting' | 'roads';
-export type ScatterPhase = 'dots' | 'ols' | 'naive-effect' | 'effect';
+// Running-variable density (McCrary 2008) test for sorting around the cutoff
+export interface DensityBin {
+  x0: number; // Bin edges on the signed distance axis
+  x1: number;
+  x: number; // Midpoint
+  count: number;
+  density: number; // count / (n * bin width), per km
+  isInside: boolean;
+}
+
+export interface DensityFitPoint {
+  x: number;
+  density: number;
+}
+
+export interface DensityTest {
+  n: number;
+  binWidth: number;
+  bandwidth: number;
+  bins: DensityBin[];
+  insideFit: DensityFitPoint[]; // Local linear smoother on each side
+  outsideFit: DensityFitPoint[];
+  insideDensity: number; // Limits at the cutoff
+  outsideDensity: number;
+  logDifference: number; // theta = ln f(0+) - ln f(0-), inside minus outside
+  standardError: number;
+  confidenceInterval: [number, number]; // 95%
+  z: number;
+}
+
+export interface BoundarySegment {
+  index: number;
+  paths: [number, number][][]; // [lat, lon] paths
+}
+
+export type OutcomeType = keyof typeof OUTCOMES; // Registered in outcomeUtils
+export type OutcomeValues = Record<OutcomeType, number | null>;
+export type CovariateType = 'elevation' | 'slope';
+export type BalanceVariable = CovariateType | 'population1572'; // Pre-treatment characteristics
+export type DistrictField = OutcomeType | BalanceVariable; // Any numeric field the RD chart can plot
+export type WeightField = 'households' | 'children';
+export type ScatterPhase = 'dots' | 'ols' | 'naive-effect' | 'effect' | 'binned';
 export type ZoomLevel = 'peru' | 'mita';
 export type HighlightMode = 'none' | 'boundary' | 'mita-only' | 'nonmita-only';
 
+// Outcome registry entry (see outcomeUtils)
+export interface OutcomeDescriptor {
+  label: string; // Axis, table and chart-title label
+  name: string; // Short name for tooltips
+  transform: (value: number) => number; // Stored value to plotted units; must be linear
+  domain: [number, number] | 'data'; // Fixed y-axis domain, or padded around the data
+  zeroIsMissing: boolean; // The source codes missing values as 0
+  axisSuffix: string; // Appended to y-axis ticks of values
+  effectAxisSuffix: string; // Appended to y-axis ticks of effects (differences)
+  coefficientUnit: string; // Unit of a coefficient in plotted units, for tables
+  formatValue: (value: number) => string; // A plotted value, with its unit
+  formatEffect: (discontinuity: number, margin?: number) => string; // An effect, with an optional ± margin (or its interval)
+  published: number | null; // Dell (2010) coefficient in stored units; null if not in the paper
+  weight?: WeightField; // Survey sample size behind the district means
+}
+
 export interface Dimensions {
   width: number;
   height: number;
@@ -75,3 +360,150 @@ export interface RenderContext {
   innerHeight: number;
   margin: Margin;
 }
+
+// Where the running variable is measured from: the replication data's district coordinates
+// (reproduces its published distances), the polygon centroid, the nearest point of the
+// district's own outline, or the data's own distance column taken as given
+export type DistanceOrigin = 'coordinates' | 'centroid' | 'edge' | 'data';
+
+// Moran's I of district values over the adjacency graph, with a permutation p-value
+export interface MoranResult {
+  statistic: number;
+  expected: number; // -1 / (n - 1) under no spatial correlation
+  pValue: number; // Two-sided, from random relabellings of the values
+  n: number; // Districts with a value and at least one neighbor with a value
+}
+
+// Runtime validation of the bundled data files
+export type DataFile = 'mitaData' | 'districtPolygons' | 'districtAdjacency' | 'mitaBoundary' | 'southAmerica';
+
+export type DataIssueKind =
+  | 'schema' // Missing or mistyped field; the record is dropped
+  | 'duplicate' // Ubigeo seen before in the same file; the later record is dropped
+  | 'coordinates' // Non-finite, out of range or outside Peru
+  | 'orphanOutcome' // Outcome row whose ubigeo has no polygon
+  | 'missingOutcome' // Polygon with no outcome row (drawn, but not in any estimate)
+  | 'treatmentMismatch' // Polygon mita flag disagrees with the outcome row's isInside
+  | 'zeroOutcome' // Outcome coded 0, which the estimates treat as missing
+  | 'staleAdjacency'; // Neighbor list that does not match the polygons (regenerate districtAdjacency.json)
+
+export interface DataIssue {
+  file: DataFile;
+  kind: DataIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  ubigeo?: number;
+}
+
+export interface Validated<T> {
+  data: T; // Records that passed validation
+  issues: DataIssue[];
+}
+
+// TopoJSON (topojson-specification 1.0), the subset the district geometry uses. Positions are
+// [lon, lat]; with a transform, arcs are quantized and delta-encoded.
+export interface TopoTransform {
+  scale: [number, number];
+  translate: [number, number];
+}
+
+export interface TopoPolygon {
+  type: 'Polygon';
+  arcs: number[][]; // Rings as arc indexes; ~i is arc i reversed
+  properties?: Record<string, unknown>;
+}
+
+export interface TopoMultiPolygon {
+  type: 'MultiPolygon';
+  arcs: number[][][];
+  properties?: Record<string, unknown>;
+}
+
+export interface TopoGeometryCollection {
+  type: 'GeometryCollection';
+  geometries: (TopoPolygon | TopoMultiPolygon)[];
+}
+
+export interface Topology {
+  type: 'Topology';
+  transform?: TopoTransform;
+  arcs: [number, number][][];
+  objects: Record<string, TopoGeometryCollection>;
+}
+
+// A district across a shared border
+export interface DistrictNeighbor {
+  ubigeo: number;
+  sharedLength: number; // Length of the shared border (km)
+  onMitaBoundary: boolean; // The border separates mita from non-mita districts
+}
+
+// Neighbors of every district by ubigeo, longest shared border first
+export type AdjacencyGraph = Map<number, DistrictNeighbor[]>;
+
+// One district's neighbors as districtAdjacency.json stores them
+export interface AdjacencyEntry {
+  ubigeo: number;
+  neighbors: DistrictNeighbor[];
+}
+
+// Drawing outlines by ubigeo: every part as [lat, lon] rings (outer first, then holes)
+export type DistrictOutlines = Map<number, [number, number][][][]>;
+
+// Bounding box in degrees; coordinates outside it are flagged
+export interface GeoExtent {
+  lat: [number, number];
+  lon: [number, number];
+}
+
+export interface DataQualityReport {
+  records: Record<DataFile, number>; // Valid records (rows, polygons, neighbor lists, polylines, features) per file
+  issues: DataIssue[];
+}
+
+// Country outline from southAmerica.json (GeoJSON order: [lon, lat])
+export interface CountryFeature {
+  type: 'Feature';
+  properties: { name: string };
+  geometry:
+    | { type: 'Polygon'; coordinates: [number, number][][] }
+    | { type: 'MultiPolygon'; coordinates: [number, number][][][] };
+}
+
+// Bring-your-own data: which uploaded columns play which role
+export interface ColumnMapping {
+  id: string; // District id, matched against polygonId; must be numeric
+  runningVariable: string; // Distance to the boundary; its side comes from the treatment flag
+  treatment: string; // 1 / true / yes inside the treated area
+  outcomes: Partial<Record<OutcomeType, string>>; // Column loaded into each outcome slot
+  weights?: Partial<Record<WeightField, string>>; // Survey sample sizes that weight the fits
+  pretreatment?: Partial<Record<BalanceVariable, string>>; // Characteristics fixed before the mita, e.g. the controls
+  polygonId: string; // GeoJSON feature property holding the district id
+}
+
+// Uploaded CSV rows and GeoJSON outlines, before mapping
+export interface UploadedTable {
+  name: string;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface UploadedFeature {
+  properties: Record<string, unknown>;
+  polygon: [number, number][]; // [lat, lon] outer ring
+  parts?: [number, number][][][]; // Every ring, when there is more than one
+}
+
+export interface UploadedPolygons {
+  name: string;
+  properties: string[]; // Property keys seen on any feature
+  features: UploadedFeature[];
+}
+
+// District data that replaces the bundled files in mergeData
+export interface DistrictDataSource {
+  name: string;
+  outcomes: DistrictData[];
+  polygons: DistrictPolygon[];
+}
+
@@ -0,0 +1,142 @@
+/**
+ * Tests for uploaded CSV/GeoJSON parsing, column mapping and the pipeline on custom data
+ */
+import { parseCSV, parseGeoJSON, guessMapping, buildDataSource, usableDistricts } from './uploadUtils';
+import { mergeData, filterScatterData } from './dataUtils';
+import { calculateFittedLines } from './fittedLineUtils';
+import { buildTopology } from './topologyUtils';
+import { UploadedPolygons } from './types';
+
+// [lon, lat] square ring, as GeoJSON stores it
+const ring = (x: number, y: number, size = 0.1): [number, number][] =>
+  [[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]];
+
+// A row of 40 districts along the x axis; the boundary sits between x = 19 and x = 20
+const CSV = [
+  'fips,dist_km,treated,income',
+  ...Array.from({ length: 40 }, (_, i) => {
+    const inside = i >= 20;
+    const distance = inside ? i - 19.5 : 19.5 - i;
+    const income = 5 + 0.02 * (i - 20) + (inside ? -0.4 : 0) + 0.05 * Math.sin(i);
+    return `${1000 + i},${distance},${inside ? 'yes' : 'no'},${i === 3 ? 'NA' : income.toFixed(3)}`;
+  }),
+].join('\n');
+
+const GEOJSON = JSON.stringify({
+  type: 'FeatureCollection',
+  features: Array.from({ length: 40 }, (_, i) => ({
+    type: 'Feature',
+    properties: { GEOID: String(1000 + i), label: `D${i}` },
+    geometry: { type: 'Polygon', coordinates: [ring(i * 0.1, 40)] },
+  })),
+});
+
+describe('uploadUtils', () => {
+  it('parses a CSV into named columns and string rows', () => {
+    const table = parseCSV('data.csv', CSV);
+    expect(table.columns).toEqual(['fips', 'dist_km', 'treated', 'income']);
+    expect(table.rows).toHaveLength(40);
+    expect(table.rows[0]).toEqual({ fips: '1000', dist_km: '19.5', treated: 'no', income: '4.600' });
+  });
+
+  it('keeps the largest outer ring as [lat, lon] and rejects non-collections', () => {
+    const polygons = parseGeoJSON('multi.geojson', JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { properties: { id: 1 }, geometry: { type: 'MultiPolygon', coordinates: [[ring(0, 0, 0.1)], [ring(5, 10, 1)]] } },
+        { properties: { id: 2 }, geometry: { type: 'Point', coordinates: [0, 0] } },
+        { properties: { id: 3 }, geometry: { type: 'Polygon', coordinates: [[[0, 0], 5, [1, 1], [0, 0]]] } },
+        { properties: { id: 4 }, geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 'a'], [1, 1], [0, 0]]] } },
+        null,
+      ],
+    })) as UploadedPolygons;
+
+    expect(polygons.features).toHaveLength(1);
+    expect(polygons.features[0].polygon[1]).toEqual([10, 6]);
+    expect(polygons.features[0].parts).toHaveLength(2);
+    expect(polygons.properties).toEqual(['id']);
+    expect(parseGeoJSON('bad.json', '{not json')).toBeNull();
+    expect(parseGeoJSON('bad.json', '{"type": "Feature"}')).toBeNull();
+  });
+
+  it('reads a TopoJSON topology like the equivalent GeoJSON', () => {
+    const outlines = (parseGeoJSON('d.geojson', GEOJSON) as UploadedPolygons).features
+      .map(f => ({ ubigeo: Number(f.properties.GEOID), mita: 0, polygon: f.polygon }));
+    const polygons = parseGeoJSON('d.topojson', JSON.stringify(buildTopology(outlines))) as UploadedPolygons;
+
+    expect(polygons.features).toHaveLength(40);
+    expect(polygons.properties).toEqual(['ubigeo', 'mita']);
+    expect(polygons.features[0].polygon[0][0]).toBeCloseTo(40);
+  });
+
+  it('guesses the mapping from column and property names', () => {
+    const polygons = parseGeoJSON('d.geojson', GEOJSON) as UploadedPolygons;
+    const mapping = guessMapping(parseCSV('d.csv', CSV).columns, polygons.properties);
+    expect(mapping).toMatchObject({ id: 'fips', runningVariable: 'dist_km', treatment: 'treated', polygonId: 'GEOID' });
+    expect(mapping.outcomes).toEqual({});
+  });
+
+  it('reports unparseable rows and unmatched ids', () => {
+    const table = parseCSV('d.csv', `${CSV}\nabc,1,yes,5\n2000,2,maybe,5\n3000,2,yes,5`);
+    const polygons = parseGeoJSON('d.geojson', GEOJSON) as UploadedPolygons;
+    const { data, issues } = buildDataSource(table, polygons, {
+      id: 'fips', runningVariable: 'dist_km', treatment: 'treated', outcomes: { consumption: 'income' }, polygonId: 'GEOID',
+    });
+
+    expect(data.outcomes).toHaveLength(41);
+    expect(data.polygons).toHaveLength(40);
+    expect(issues.map(i => i.kind)).toEqual(['schema', 'schema', 'orphanOutcome']);
+    expect(issues[2].ubigeo).toBe(3000);
+    expect(data.polygons.filter(p => p.mita === 1)).toHaveLength(20);
+    expect(usableDistricts(data)).toEqual({ inside: 20, outside: 20 });
+  });
+
+  it('runs mergeData, the scatter and the fitted lines on uploaded data', () => {
+    const { data } = buildDataSource(parseCSV('d.csv', CSV), parseGeoJSON('d.geojson', GEOJSON) as UploadedPolygons, {
+      id: 'fips', runningVariable: 'dist_km', treatment: 'treated', outcomes: { consumption: 'income' }, polygonId: 'GEOID',
+    });
+    const merged = mergeData('data', data);
+    expect(merged).toHaveLength(40);
+    expect(mergeData('data', data)).toBe(merged);
+    expect(merged.find(d => d.ubigeo === 1025)?.scatterX).toBeCloseTo(5.5);
+    expect(merged.find(d => d.ubigeo === 1005)?.scatterX).toBeCloseTo(-14.5);
+
+    const scatter = filterScatterData(merged, 'consumption');
+    expect(scatter).toHaveLength(39);
+    const lines = calculateFittedLines(scatter);
+    expect(lines.naiveDiscontinuity).toBeCloseTo(-0.4, 1);
+  });
+
+  it('weights the fits by a mapped sample-size column', () => {
+    const table = parseCSV('d.csv', CSV.split('\n').map((line, i) => `${line},${i === 0 ? 'n' : 10 + i}`).join('\n'));
+    const { data } = buildDataSource(table, parseGeoJSON('d.geojson', GEOJSON) as UploadedPolygons, {
+      id: 'fips', runningVariable: 'dist_km', treatment: 'treated', outcomes: { consumption: 'income' },
+      weights: { households: 'n' }, polygonId: 'GEOID',
+    });
+    expect(guessMapping(table.columns, ['GEOID']).weights).toEqual({});
+    expect(data.outcomes[0].households).toBe(11);
+
+    const scatter = filterScatterData(mergeData('data', data), 'consumption');
+    expect(scatter.every(d => d.weight !== null)).toBe(true);
+    expect(calculateFittedLines(scatter, { weighted: true }).rdEstimate).not.toBeNull();
+  });
+
+  it('controls for mapped elevation and slope columns and keeps other pre-treatment columns', () => {
+    const table = parseCSV('d.csv', CSV.split('\n')
+      .map((line, i) => `${line},${i === 0 ? 'Elevation,slope,tributaries' : `${3000 + 40 * Math.cos(i)},${5 + (i % 7)},${i * 10}`}`)
+      .join('\n'));
+    const mapping = guessMapping(table.columns, ['GEOID']);
+    expect(mapping.pretreatment).toEqual({ elevation: 'Elevation', slope: 'slope' });
+
+    const { data } = buildDataSource(table, parseGeoJSON('d.geojson', GEOJSON) as UploadedPolygons, {
+      ...mapping,
+      outcomes: { consumption: 'income' },
+      pretreatment: { ...mapping.pretreatment, population1572: 'tributaries' },
+      polygonId: 'GEOID',
+    });
+    expect(data.outcomes[0]).toMatchObject({ elevation: 3000 + 40 * Math.cos(1), slope: 6, population1572: 10 });
+    const lines = calculateFittedLines(filterScatterData(mergeData('data', data), 'consumption'));
+    expect(lines.controlledEstimate).not.toBeNull();
+    expect(lines.controlledEstimate!.estimate).toBeCloseTo(-0.4, 0);
+  });
+});
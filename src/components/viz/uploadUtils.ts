@@ -0,0 +1,205 @@
+// Bring-your-own data: parse an uploaded CSV and GeoJSON and map their columns onto the
+// district schema, so the whole pipeline (mergeData -> scatter -> fitted lines) can run on them
+import * as d3 from 'd3';
+import {
+  BalanceVariable,
+  ColumnMapping,
+  DataIssue,
+  DistrictDataSource,
+  OutcomeType,
+  UploadedFeature,
+  UploadedPolygons,
+  UploadedTable,
+  Validated,
+  WeightField,
+} from './types';
+import { OUTCOME_IDS, WEIGHT_FIELDS } from './outcomeUtils';
+import { BALANCE_VARIABLES } from './constants';
+import { validateMitaData, validateDistrictPolygons, crossCheckDistricts, isRecord, isFiniteNumber } from './validationUtils';
+import { decodeDistrictTopology, isTopology } from './topologyUtils';
+
+const MISSING_VALUES = new Set(['', 'na', 'n/a', 'nan', 'null', '.']);
+const TRUE_VALUES = new Set(['1', 'true', 't', 'yes', 'y']);
+const FALSE_VALUES = new Set(['0', 'false', 'f', 'no', 'n']);
+
+export const parseCSV = (name: string, text: string): UploadedTable => {
+  const parsed = d3.csvParse(text);
+  return {
+    name,
+    columns: parsed.columns.slice(),
+    rows: parsed.map(row => Object.fromEntries(parsed.columns.map(c => [c, row[c] ?? '']))),
+  };
+};
+
+// Signed area of a ring, to pick the largest part of a MultiPolygon
+const ringArea = (ring: [number, number][]): number =>
+  ring.reduce((s, [x0, y0], i) => {
+    const [x1, y1] = ring[(i + 1) % ring.length];
+    return s + x0 * y1 - x1 * y0;
+  }, 0) / 2;
+
+// A [lon, lat] position (any further coordinates are ignored), and a ring of at least three
+const isPosition = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length >= 2 && isFiniteNumber(value[0]) && isFiniteNumber(value[1]);
+
+const isRing = (value: unknown): value is [number, number][] =>
+  Array.isArray(value) && value.length >= 3 && value.every(isPosition);
+
+// GeoJSON FeatureCollection of Polygons or MultiPolygons, or a TopoJSON Topology (its first
+// object). Each district keeps the outer ring of its largest part, flipped to [lat, lon], and
+// every ring when it has more than one; null when the text is neither. Rings with a malformed
+// position are dropped.
+export const parseGeoJSON = (name: string, text: string): UploadedPolygons | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const features: UploadedFeature[] = [];
+  const properties = new Set<string>();
+  const addFeature = (props: Record<string, unknown>, polygon: [number, number][], parts?: [number, number][][][]) => {
+    Object.keys(props).forEach(key => properties.add(key));
+    features.push({ properties: props, polygon, ...(parts ? { parts } : {}) });
+  };
+
+  if (isTopology(raw)) {
+    const object = Object.keys(raw.objects)[0];
+    (object === undefined ? [] : decodeDistrictTopology(raw, 0, object)).forEach(({ polygon, parts, ...props }) => {
+      if (polygon) addFeature(props, polygon as [number, number][], parts as [number, number][][][] | undefined);
+    });
+    return { name, properties: Array.from(properties), features };
+  }
+  if (!isRecord(raw) || raw.type !== 'FeatureCollection' || !Array.isArray(raw.features)) return null;
+
+  raw.features.forEach((feature: unknown) => {
+    if (!isRecord(feature)) return;
+    const geometry = isRecord(feature.geometry) ? feature.geometry : null;
+    const coordinates: unknown[] = geometry?.type === 'Polygon'
+      ? [geometry.coordinates]
+      : geometry?.type === 'MultiPolygon' && Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+    const parts = coordinates
+      .filter((rings): rings is unknown[] => Array.isArray(rings) && isRing(rings[0]))
+      .map(rings => rings.filter(isRing).map(ring => ring.map(([lon, lat]): [number, number] => [lat, lon])));
+    const outer = parts
+      .map(rings => rings[0])
+      .sort((a, b) => Math.abs(ringArea(b)) - Math.abs(ringArea(a)))[0];
+    if (!outer) return;
+    addFeature(isRecord(feature.properties) ? feature.properties : {}, outer, parts.length > 1 || parts[0].length > 1 ? parts : undefined);
+  });
+
+  return { name, properties: Array.from(properties), features };
+};
+
+// First column whose name matches, in order of preference
+const findColumn = (columns: string[], patterns: RegExp[]): string | undefined => {
+  for (const pattern of patterns) {
+    const match = columns.find(c => pattern.test(c));
+    if (match) return match;
+  }
+  return undefined;
+};
+
+// Starting point for the mapping dialog, from column names alone
+export const guessMapping = (columns: string[], properties: string[]): ColumnMapping => {
+  const id = findColumn(columns, [/^ubigeo$/i, /^(geo)?id$/i, /ubigeo|fips|code|_id$|^id/i]) ?? columns[0] ?? '';
+  const outcomes: Partial<Record<OutcomeType, string>> = {};
+  OUTCOME_IDS.forEach(outcome => {
+    const match = columns.find(c => c.toLowerCase() === outcome);
+    if (match) outcomes[outcome] = match;
+  });
+  const weights: Partial<Record<WeightField, string>> = {};
+  WEIGHT_FIELDS.forEach(field => {
+    const match = columns.find(c => c.toLowerCase() === field);
+    if (match) weights[field] = match;
+  });
+  const pretreatment: Partial<Record<BalanceVariable, string>> = {};
+  BALANCE_VARIABLES.forEach(field => {
+    const match = columns.find(c => c.toLowerCase() === field);
+    if (match) pretreatment[field] = match;
+  });
+  return {
+    id,
+    runningVariable: findColumn(columns, [/^distance$/i, /dist/i, /running|score/i]) ?? '',
+    treatment: findColumn(columns, [/^isinside$/i, /inside|treat|mita/i]) ?? '',
+    outcomes,
+    weights,
+    pretreatment,
+    polygonId: properties.find(p => p === id) ?? findColumn(properties, [/^ubigeo$/i, /^(geo)?id$/i, /ubigeo|fips|code|id/i]) ??
+      properties[0] ?? '',
+  };
+};
+
+const parseNumber = (value: string | undefined): number | null | undefined => {
+  const text = (value ?? '').trim();
+  if (MISSING_VALUES.has(text.toLowerCase())) return null;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : undefined; // undefined: present but not a number
+};
+
+const parseFlag = (value: string | undefined): boolean | undefined => {
+  const text = (value ?? '').trim().toLowerCase();
+  return TRUE_VALUES.has(text) ? true : FALSE_VALUES.has(text) ? false : undefined;
+};
+
+// Apply a column mapping. Rows and outlines go through the same validators as the bundled
+// files (without the Peru extent check), so problems are reported the same way.
+export const buildDataSource = (
+  table: UploadedTable,
+  polygons: UploadedPolygons,
+  mapping: ColumnMapping
+): Validated<DistrictDataSource> => {
+  const rawRows = table.rows.map(row => {
+    const record: Record<string, unknown> = {
+      ubigeo: parseNumber(row[mapping.id]),
+      distance: parseNumber(row[mapping.runningVariable]),
+      isInside: parseFlag(row[mapping.treatment]) ?? row[mapping.treatment],
+      lat: null,
+      lon: null,
+    };
+    OUTCOME_IDS.forEach(outcome => {
+      const column = mapping.outcomes[outcome];
+      const value = column ? parseNumber(row[column]) : null;
+      record[outcome] = value === undefined ? row[column as string] : value;
+    });
+    WEIGHT_FIELDS.forEach(field => {
+      const column = mapping.weights?.[field];
+      const value = column ? parseNumber(row[column]) : null;
+      record[field] = value === undefined ? row[column as string] : value;
+    });
+    BALANCE_VARIABLES.forEach(field => {
+      const column = mapping.pretreatment?.[field];
+      const value = column ? parseNumber(row[column]) : null;
+      record[field] = value === undefined ? row[column as string] : value;
+    });
+    return record;
+  });
+  const outcomes = validateMitaData(rawRows, null);
+
+  // Polygons take their side from the matching row, so the map and the scatter agree
+  const treated = new Map(outcomes.data.map(d => [d.ubigeo, d.isInside]));
+  const rawPolygons = polygons.features.map(f => {
+    const id = parseNumber(String(f.properties[mapping.polygonId] ?? ''));
+    return { ubigeo: id, mita: id != null && treated.get(id) ? 1 : 0, polygon: f.polygon, parts: f.parts };
+  });
+  const outlines = validateDistrictPolygons(rawPolygons, null);
+
+  const issues: DataIssue[] = [
+    ...outcomes.issues,
+    ...outlines.issues,
+    ...crossCheckDistricts(outcomes.data, outlines.data).filter(i => i.kind !== 'treatmentMismatch'),
+  ];
+  return {
+    data: { name: table.name, outcomes: outcomes.data, polygons: outlines.data },
+    issues,
+  };
+};
+
+// Districts the pipeline can use: a polygon, a running variable and a side
+export const usableDistricts = (source: DistrictDataSource): { inside: number; outside: number } => {
+  const ids = new Set(source.polygons.map(p => p.ubigeo));
+  const usable = source.outcomes.filter(d => ids.has(d.ubigeo) && d.distance !== null);
+  const inside = usable.filter(d => d.isInside).length;
+  return { inside, outside: usable.length - inside };
+};
@@ -0,0 +1,143 @@
+/**
+ * Tests for data validation and the data-quality report
+ */
+import {
+  validateMitaData,
+  validateDistrictPolygons,
+  validateDistrictAdjacency,
+  crossCheckAdjacency,
+  validateMitaBoundary,
+  validateSouthAmerica,
+  buildDataQualityReport,
+} from './validationUtils';
+
+const row = (ubigeo: number, overrides: Record<string, unknown> = {}) => ({
+  ubigeo,
+  distance: -5,
+  isInside: true,
+  consumption: 6.1,
+  stunting: 0.4,
+  roads: 20,
+  lat: 13.5,
+  lon: 72,
+  ...overrides,
+});
+
+const square = (lat: number, lon: number): [number, number][] =>
+  [[lat, lon], [lat, lon + 0.1], [lat + 0.1, lon + 0.1], [lat + 0.1, lon]];
+
+describe('validationUtils', () => {
+  it('accepts the bundled files', () => {
+    expect(validateMitaData().data).toHaveLength(185);
+    expect(validateDistrictPolygons().data).toHaveLength(305);
+    expect(validateDistrictAdjacency().data.size).toBe(305);
+    expect(validateMitaBoundary().data).toHaveLength(2);
+    expect(validateSouthAmerica().data.some(f => f.properties.name === 'Peru')).toBe(true);
+  });
+
+  it('drops malformed and duplicate outcome rows', () => {
+    const { data, issues } = validateMitaData([
+      row(1),
+      row(2, { isInside: 'yes' }),
+      row(3, { stunting: 'n/a', roads: Infinity }),
+      { distance: 3 },
+      row(1),
+    ]);
+    expect(data.map(d => d.ubigeo)).toEqual([1]);
+    expect(issues.map(i => i.kind)).toEqual(['schema', 'schema', 'schema', 'duplicate']);
+    expect(issues[1].message).toBe('Invalid stunting, roads');
+    expect(validateMitaData({}).issues[0].severity).toBe('error');
+  });
+
+  it('keeps but flags zero outcomes and coordinates outside Peru', () => {
+    const { data, issues } = validateMitaData([row(1, { roads: 0 }), row(2, { lat: 40 }), row(3, { lon: null })]);
+    expect(data).toHaveLength(3);
+    expect(issues.map(i => [i.kind, i.ubigeo])).toEqual([
+      ['zeroOutcome', 1],
+      ['coordinates', 2],
+      ['coordinates', 3],
+    ]);
+  });
+
+  it('checks polygon flags and vertices', () => {
+    const { data, issues } = validateDistrictPolygons([
+      { ubigeo: 1, mita: 1, polygon: square(-14, -72) },
+      { ubigeo: 2, mita: 2, polygon: square(-14, -72) },
+      { ubigeo: 3, mita: 0, polygon: [[-14, -72], [-14, NaN], [-13, -72]] },
+      { ubigeo: 4, mita: 0, polygon: square(-14, -72).slice(0, 2) },
+      { ubigeo: 5, mita: 0, polygon: square(10, -72) },
+    ]);
+    expect(data.map(d => d.ubigeo)).toEqual([1, 5]);
+    expect(issues.map(i => [i.kind, i.severity])).toEqual([
+      ['schema', 'error'],
+      ['coordinates', 'error'],
+      ['schema', 'error'],
+      ['coordinates', 'warning'],
+    ]);
+  });
+
+  it('checks neighbor lists', () => {
+    const neighbor = { ubigeo: 2, sharedLength: 1.5, onMitaBoundary: true };
+    const { data, issues } = validateDistrictAdjacency([
+      { ubigeo: 1, neighbors: [neighbor] },
+      { ubigeo: 2, neighbors: [{ ...neighbor, sharedLength: -1 }] },
+      { neighbors: [] },
+      { ubigeo: 1, neighbors: [] },
+    ]);
+    expect(data).toEqual(new Map([[1, [neighbor]]]));
+    expect(issues.map(i => [i.kind, i.ubigeo])).toEqual([['schema', 2], ['schema', undefined], ['duplicate', 1]]);
+
+    const polygons = [
+      { ubigeo: 1, mita: 1 as const, polygon: square(-14, -72) },
+      { ubigeo: 2, mita: 1 as const, polygon: square(-14, -72.1) },
+      { ubigeo: 3, mita: 0 as const, polygon: square(-14, -72.2) },
+    ];
+    expect(crossCheckAdjacency(new Map([
+      [1, [neighbor]],
+      [2, [{ ...neighbor, ubigeo: 1, onMitaBoundary: false }, { ...neighbor, ubigeo: 9 }]],
+      [9, []],
+    ]), polygons).map(i => [i.ubigeo, i.message])).toEqual([
+      [3, 'Polygon has no neighbor list'],
+      [1, 'Border with 2 disagrees with the polygons\' mita flags'],
+      [2, 'Neighbor 9 has no polygon'],
+      [9, 'Neighbor list has no polygon'],
+    ]);
+  });
+
+  it('checks boundary polylines and country outlines', () => {
+    expect(validateMitaBoundary([[[-14, -72]], [[-14, -72], [-14.1, -72.1]]]).data).toHaveLength(1);
+    const countries = validateSouthAmerica({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: { name: 'Chile' }, geometry: { type: 'Point', coordinates: [0, 0] } }],
+    });
+    expect(countries.data).toHaveLength(0);
+    expect(countries.issues.map(i => i.message)).toContain('No valid Peru feature; the map cannot zoom to Peru');
+  });
+
+  it('cross-checks outcome rows against polygons', () => {
+    const report = buildDataQualityReport({
+      mitaData: [row(1), row(2, { isInside: false }), row(9)],
+      districtPolygons: [
+        { ubigeo: 1, mita: 1, polygon: square(-14, -72) },
+        { ubigeo: 2, mita: 1, polygon: square(-14, -72.1) },
+        { ubigeo: 3, mita: 0, polygon: square(-14, -72.2) },
+      ],
+    });
+    expect(report.records.mitaData).toBe(3);
+    expect(report.issues.map(i => [i.kind, i.ubigeo])).toEqual([
+      ['orphanOutcome', 9],
+      ['missingOutcome', 3],
+      ['treatmentMismatch', 2],
+    ]);
+  });
+
+  it('reports the known problems in the bundled data', () => {
+    const { issues } = buildDataQualityReport();
+    const byKind = (kind: string) => issues.filter(i => i.kind === kind).map(i => i.ubigeo);
+    expect(issues.filter(i => i.severity === 'error')).toEqual([]);
+    expect(byKind('treatmentMismatch')).toEqual([30102, 30103, 30106, 30107]);
+    expect(byKind('missingOutcome')).toHaveLength(305 - 185);
+    expect(byKind('zeroOutcome')).toHaveLength(109);
+    expect(byKind('staleAdjacency')).toEqual([]);
+  });
+});
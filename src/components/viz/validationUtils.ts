@@ -0,0 +1,350 @@
+// Runtime validation of the bundled JSON files and a cross-file data-quality report.
+// Validators never throw: bad records are dropped and reported, questionable ones kept and flagged.
+import districtAdjacency from '../../data/districtAdjacency.json';
+import districtTopology from '../../data/districtTopology.json';
+import mitaData from '../../data/mitaData.json';
+import mitaBoundary from '../../data/mitaBoundary.json';
+import southAmerica from '../../data/southAmerica.json';
+import {
+  AdjacencyGraph,
+  DistrictData,
+  DistrictNeighbor,
+  DistrictPolygon,
+  CountryFeature,
+  DataFile,
+  DataIssue,
+  DataIssueKind,
+  DataQualityReport,
+  GeoExtent,
+  OutcomeValues,
+  Validated,
+} from './types';
+import { PERU_EXTENT } from './constants';
+import { OUTCOMES, OUTCOME_IDS } from './outcomeUtils';
+import { decodeDistrictTopology, isTopology } from './topologyUtils';
+
+const OPTIONAL_FIELDS = ['elevation', 'slope', 'population1572', 'households', 'children'] as const;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNullableNumber = (value: unknown): value is number | null | undefined =>
+  value === null || value === undefined || isFiniteNumber(value);
+
+const isUbigeo = (value: unknown): value is number =>
+  isFiniteNumber(value) && Number.isInteger(value) && value > 0;
+
+// A finite [first, second] pair within the given absolute bounds
+const isPair = (value: unknown, maxFirst: number, maxSecond: number): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && isFiniteNumber(value[0]) && isFiniteNumber(value[1]) &&
+  Math.abs(value[0]) <= maxFirst && Math.abs(value[1]) <= maxSecond;
+
+const isLatLon = (value: unknown): value is [number, number] => isPair(value, 90, 180);
+
+// Always true without an extent (uploaded data can be anywhere)
+const inExtent = ([lat, lon]: [number, number], extent: GeoExtent | null): boolean =>
+  extent === null || (
+    lat >= extent.lat[0] && lat <= extent.lat[1] &&
+    lon >= extent.lon[0] && lon <= extent.lon[1]);
+
+const issue = (
+  file: DataFile,
+  kind: DataIssueKind,
+  severity: DataIssue['severity'],
+  message: string,
+  ubigeo?: number
+): DataIssue => (ubigeo === undefined ? { file, kind, severity, message } : { file, kind, severity, message, ubigeo });
+
+const notAnArray = <T>(file: DataFile, empty: T): Validated<T> => ({
+  data: empty,
+  issues: [issue(file, 'schema', 'error', 'Expected an array at the top level')],
+});
+
+// mitaData.json: one outcome row per district
+export const validateMitaData = (
+  raw: unknown = mitaData,
+  extent: GeoExtent | null = PERU_EXTENT
+): Validated<DistrictData[]> => {
+  const file: DataFile = 'mitaData';
+  if (!Array.isArray(raw)) return notAnArray(file, []);
+  const issues: DataIssue[] = [];
+  const seen = new Set<number>();
+  const data: DistrictData[] = [];
+
+  raw.forEach((row, i) => {
+    if (!isRecord(row) || !isUbigeo(row.ubigeo)) {
+      issues.push(issue(file, 'schema', 'error', `Row ${i} has no valid ubigeo`));
+      return;
+    }
+    const ubigeo = row.ubigeo;
+    const invalid = [
+      ...(typeof row.isInside === 'boolean' ? [] : ['isInside']),
+      ...['distance', ...OUTCOME_IDS, 'lat', 'lon', ...OPTIONAL_FIELDS].filter(f => !isNullableNumber(row[f])),
+    ];
+    if (invalid.length > 0) {
+      issues.push(issue(file, 'schema', 'error', `Invalid ${invalid.join(', ')}`, ubigeo));
+      return;
+    }
+    if (seen.has(ubigeo)) {
+      issues.push(issue(file, 'duplicate', 'error', 'Duplicate outcome row', ubigeo));
+      return;
+    }
+    seen.add(ubigeo);
+
+    const value = (field: string): number | null => (row[field] as number | null | undefined) ?? null;
+    const district: DistrictData = {
+      ubigeo,
+      distance: value('distance'),
+      isInside: row.isInside as boolean,
+      ...Object.fromEntries(OUTCOME_IDS.map(id => [id, value(id)])) as OutcomeValues,
+      lat: value('lat'),
+      lon: value('lon'),
+    };
+    OPTIONAL_FIELDS.forEach(field => {
+      if (row[field] !== undefined) district[field] = value(field);
+    });
+    data.push(district);
+
+    // Coordinates are stored as positive degrees (south and west)
+    if ((district.lat === null) !== (district.lon === null)) {
+      issues.push(issue(file, 'coordinates', 'warning', 'Only one of lat and lon is given', ubigeo));
+    } else if (district.lat !== null && !inExtent([-Math.abs(district.lat), -Math.abs(district.lon as number)], extent)) {
+      issues.push(issue(file, 'coordinates', 'warning', `Coordinates ${district.lat}, ${district.lon} fall outside the study area`, ubigeo));
+    }
+    OUTCOME_IDS.filter(field => OUTCOMES[field].zeroIsMissing && district[field] === 0).forEach(field => {
+      issues.push(issue(file, 'zeroOutcome', 'warning', `${field} is 0, treated as missing`, ubigeo));
+    });
+  });
+
+  return { data, issues };
+};
+
+// District records: one [lat, lon] outline per district, with its mita flag and, for districts
+// with several parts or holes, every ring
+export const validateDistrictPolygons = (
+  raw: unknown = decodeDistrictTopology(districtTopology),
+  extent: GeoExtent | null = PERU_EXTENT
+): Validated<DistrictPolygon[]> => {
+  const file: DataFile = 'districtPolygons';
+  if (!Array.isArray(raw)) return notAnArray(file, []);
+  const issues: DataIssue[] = [];
+  const seen = new Set<number>();
+  const data: DistrictPolygon[] = [];
+
+  raw.forEach((record, i) => {
+    if (!isRecord(record) || !isUbigeo(record.ubigeo)) {
+      issues.push(issue(file, 'schema', 'error', `Polygon ${i} has no valid ubigeo`));
+      return;
+    }
+    const ubigeo = record.ubigeo;
+    if (record.mita !== 0 && record.mita !== 1) {
+      issues.push(issue(file, 'schema', 'error', 'mita must be 0 or 1', ubigeo));
+      return;
+    }
+    if (!Array.isArray(record.polygon) || record.polygon.length < 3) {
+      issues.push(issue(file, 'schema', 'error', 'Outline needs at least three vertices', ubigeo));
+      return;
+    }
+    if (!record.polygon.every(isLatLon)) {
+      issues.push(issue(file, 'coordinates', 'error', 'Outline has a non-finite or out-of-range vertex', ubigeo));
+      return;
+    }
+    const parts = record.parts;
+    if (parts !== undefined && !(Array.isArray(parts) && parts.every(part =>
+      Array.isArray(part) && part.length > 0 && part.every(ring =>
+        Array.isArray(ring) && ring.length >= 3 && ring.every(isLatLon))))) {
+      issues.push(issue(file, 'schema', 'error', 'Parts must be lists of rings of at least three vertices', ubigeo));
+      return;
+    }
+    if (seen.has(ubigeo)) {
+      issues.push(issue(file, 'duplicate', 'error', 'Duplicate polygon', ubigeo));
+      return;
+    }
+    seen.add(ubigeo);
+
+    const polygon = record.polygon as [number, number][];
+    data.push({
+      ubigeo,
+      mita: record.mita,
+      polygon,
+      ...(parts ? { parts: parts as [number, number][][][] } : {}),
+    });
+    if (!polygon.every(p => inExtent(p, extent))) {
+      issues.push(issue(file, 'coordinates', 'warning', 'Outline extends outside the study area', ubigeo));
+    }
+  });
+
+  return { data, issues };
+};
+
+// districtTopology.json: the districts as TopoJSON (built from districtPolygons.json by
+// scripts/buildTopology.ts), decoded with positions below minArea dropped
+export const validateDistrictTopology = (
+  raw: unknown = districtTopology,
+  minArea = 0
+): Validated<DistrictPolygon[]> => {
+  if (!isTopology(raw)) {
+    return { data: [], issues: [issue('districtPolygons', 'schema', 'error', 'Expected a TopoJSON Topology')] };
+  }
+  return validateDistrictPolygons(decodeDistrictTopology(raw, minArea));
+};
+
+// districtAdjacency.json: each district's neighbors, generated from districtTopology.json by
+// scripts/buildAdjacency.ts so the graph is not rebuilt on every page load
+export const validateDistrictAdjacency = (raw: unknown = districtAdjacency): Validated<AdjacencyGraph> => {
+  const file: DataFile = 'districtAdjacency';
+  if (!Array.isArray(raw)) return notAnArray(file, new Map());
+  const issues: DataIssue[] = [];
+  const data: AdjacencyGraph = new Map();
+  const isNeighbor = (value: unknown): value is DistrictNeighbor =>
+    isRecord(value) && isUbigeo(value.ubigeo) && isFiniteNumber(value.sharedLength) && value.sharedLength > 0 &&
+    typeof value.onMitaBoundary === 'boolean';
+
+  raw.forEach((entry, i) => {
+    if (!isRecord(entry) || !isUbigeo(entry.ubigeo)) {
+      issues.push(issue(file, 'schema', 'error', `Entry ${i} has no valid ubigeo`));
+      return;
+    }
+    const ubigeo = entry.ubigeo;
+    if (!Array.isArray(entry.neighbors) || !entry.neighbors.every(isNeighbor)) {
+      issues.push(issue(file, 'schema', 'error', 'Neighbors need a ubigeo, a positive sharedLength and onMitaBoundary', ubigeo));
+      return;
+    }
+    if (data.has(ubigeo)) {
+      issues.push(issue(file, 'duplicate', 'error', 'Duplicate neighbor list', ubigeo));
+      return;
+    }
+    data.set(ubigeo, entry.neighbors.map(n => ({ ubigeo: n.ubigeo, sharedLength: n.sharedLength, onMitaBoundary: n.onMitaBoundary })));
+  });
+
+  return { data, issues };
+};
+
+// mitaBoundary.json: [lat, lon] polylines
+export const validateMitaBoundary = (raw: unknown = mitaBoundary): Validated<[number, number][][]> => {
+  const file: DataFile = 'mitaBoundary';
+  if (!Array.isArray(raw)) return notAnArray(file, []);
+  const issues: DataIssue[] = [];
+  const data: [number, number][][] = [];
+
+  raw.forEach((line, i) => {
+    if (!Array.isArray(line) || line.length < 2) {
+      issues.push(issue(file, 'schema', 'error', `Polyline ${i} needs at least two vertices`));
+    } else if (!line.every(isLatLon)) {
+      issues.push(issue(file, 'coordinates', 'error', `Polyline ${i} has a non-finite or out-of-range vertex`));
+    } else {
+      data.push(line as [number, number][]);
+      if (!line.every(p => inExtent(p, PERU_EXTENT))) {
+        issues.push(issue(file, 'coordinates', 'warning', `Polyline ${i} extends outside Peru`));
+      }
+    }
+  });
+
+  return { data, issues };
+};
+
+// southAmerica.json: GeoJSON country outlines ([lon, lat]); the map needs Peru's
+export const validateSouthAmerica = (raw: unknown = southAmerica): Validated<CountryFeature[]> => {
+  const file: DataFile = 'southAmerica';
+  if (!isRecord(raw) || raw.type !== 'FeatureCollection' || !Array.isArray(raw.features)) {
+    return { data: [], issues: [issue(file, 'schema', 'error', 'Expected a GeoJSON FeatureCollection')] };
+  }
+  const issues: DataIssue[] = [];
+  const isRing = (ring: unknown): boolean =>
+    Array.isArray(ring) && ring.length >= 4 && ring.every(p => isPair(p, 180, 90));
+
+  const data = raw.features.filter((feature, i): feature is CountryFeature => {
+    const name = isRecord(feature) && isRecord(feature.properties) && typeof feature.properties.name === 'string'
+      ? feature.properties.name
+      : null;
+    const geometry = isRecord(feature) && isRecord(feature.geometry) ? feature.geometry : null;
+    const polygons = geometry?.type === 'Polygon'
+      ? [geometry.coordinates]
+      : geometry?.type === 'MultiPolygon' && Array.isArray(geometry.coordinates) ? geometry.coordinates : null;
+    if (name === null || polygons === null) {
+      issues.push(issue(file, 'schema', 'error', `Feature ${i} needs a name and a Polygon or MultiPolygon`));
+      return false;
+    }
+    if (!polygons.every(rings => Array.isArray(rings) && rings.length > 0 && rings.every(isRing))) {
+      issues.push(issue(file, 'coordinates', 'error', `${name} has an invalid ring`));
+      return false;
+    }
+    return true;
+  });
+
+  if (!data.some(f => f.properties.name === 'Peru')) {
+    issues.push(issue(file, 'schema', 'error', 'No valid Peru feature; the map cannot zoom to Peru'));
+  }
+  return { data, issues };
+};
+
+// Outcome rows and polygons that do not line up with each other
+export const crossCheckDistricts = (outcomes: DistrictData[], polygons: DistrictPolygon[]): DataIssue[] => {
+  const polygonByUbigeo = new Map(polygons.map(p => [p.ubigeo, p]));
+  const outcomeUbigeos = new Set(outcomes.map(d => d.ubigeo));
+  return [
+    ...outcomes
+      .filter(d => !polygonByUbigeo.has(d.ubigeo))
+      .map(d => issue('mitaData', 'orphanOutcome', 'error', 'Outcome row has no polygon, so it is never used', d.ubigeo)),
+    ...polygons
+      .filter(p => !outcomeUbigeos.has(p.ubigeo))
+      .map(p => issue('districtPolygons', 'missingOutcome', 'warning',
+        `No outcome row; side defaults to the polygon's mita flag (${p.mita})`, p.ubigeo)),
+    ...outcomes
+      .filter(d => polygonByUbigeo.has(d.ubigeo) && (polygonByUbigeo.get(d.ubigeo)!.mita === 1) !== d.isInside)
+      .map(d => issue('districtPolygons', 'treatmentMismatch', 'warning',
+        `Polygon mita flag is ${polygonByUbigeo.get(d.ubigeo)!.mita} but the outcome row has isInside ${d.isInside}; the outcome row is used`,
+        d.ubigeo)),
+  ];
+};
+
+// Neighbor lists that do not match the polygons they were generated from
+export const crossCheckAdjacency = (graph: AdjacencyGraph, polygons: DistrictPolygon[]): DataIssue[] => {
+  const mita = new Map(polygons.map(p => [p.ubigeo, p.mita]));
+  const stale = (message: string, ubigeo: number) =>
+    issue('districtAdjacency', 'staleAdjacency', 'warning', message, ubigeo);
+  return [
+    ...polygons.filter(p => !graph.has(p.ubigeo)).map(p => stale('Polygon has no neighbor list', p.ubigeo)),
+    ...Array.from(graph).flatMap(([ubigeo, neighbors]) => (!mita.has(ubigeo)
+      ? [stale('Neighbor list has no polygon', ubigeo)]
+      : neighbors
+        .filter(n => !mita.has(n.ubigeo) || n.onMitaBoundary !== (mita.get(n.ubigeo) !== mita.get(ubigeo)))
+        .map(n => stale(mita.has(n.ubigeo)
+          ? `Border with ${n.ubigeo} disagrees with the polygons' mita flags`
+          : `Neighbor ${n.ubigeo} has no polygon`, ubigeo)))),
+  ];
+};
+
+// Validate every file, then check that outcome rows, polygons and neighbor lists agree with each other
+export const buildDataQualityReport = (raw: Partial<Record<DataFile, unknown>> = {}): DataQualityReport => {
+  const outcomes = validateMitaData(raw.mitaData ?? mitaData);
+  const rawPolygons = raw.districtPolygons ?? districtTopology;
+  const polygons = isTopology(rawPolygons)
+    ? validateDistrictTopology(rawPolygons)
+    : validateDistrictPolygons(rawPolygons);
+  const adjacency = validateDistrictAdjacency(raw.districtAdjacency ?? districtAdjacency);
+  const boundary = validateMitaBoundary(raw.mitaBoundary ?? mitaBoundary);
+  const countries = validateSouthAmerica(raw.southAmerica ?? southAmerica);
+  // The neighbor lists were generated from the bundled polygons; replaced polygons alone leave
+  // nothing to compare them with
+  const crossFile = [
+    ...crossCheckDistricts(outcomes.data, polygons.data),
+    ...(raw.districtPolygons === undefined || raw.districtAdjacency !== undefined
+      ? crossCheckAdjacency(adjacency.data, polygons.data)
+      : []),
+  ];
+
+  return {
+    records: {
+      mitaData: outcomes.data.length,
+      districtPolygons: polygons.data.length,
+      districtAdjacency: adjacency.data.size,
+      mitaBoundary: boundary.data.length,
+      southAmerica: countries.data.length,
+    },
+    issues: [...outcomes.issues, ...polygons.issues, ...adjacency.issues, ...boundary.issues, ...countries.issues, ...crossFile],
+  };
+};